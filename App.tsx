@@ -2,67 +2,45 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import Preloader from './components/Preloader';
-import { DATA_FILES } from '@/config';
-import { Graph, NodeInstance, Connection } from '@/types';
-import { nodeFactory, getUniqueId } from '@/engine/nodeFactory';
-import { codeGenerator } from '@/engine/codeGenerator';
+import { DATA_FILES, DEFINITIONS_URL } from '@/config';
+import { Graph, Registry } from '@/types';
+import { nodeFactory } from '@/engine/nodeFactory';
+import { GenerationError, SourceMapEntry } from '@/engine/codeGenerator';
 import { importParser } from '@/engine/importParser';
-import { LayoutGrid } from 'lucide-react';
+import { codeSync, CodeEditError } from '@/engine/codeSync';
+import { ValueChange } from '@/engine/findReplace';
+import { graphValidator } from '@/engine/graphValidator';
+import { dataFlow, JS_NODE_COMMAND } from '@/engine/dataFlow';
+import { createDefinitionsFromFile } from '@/engine/definitionLoader';
+import { projectLoader, ProjectFile } from '@/engine/projectLoader';
+import { projectStorage, StoredSession, RecentProject } from '@/engine/projectStorage';
+import { subgraphManager } from '@/engine/subgraphs';
+import { customDefinitions, DefinitionFile } from '@/engine/customDefinitions';
+import { graphHistory, GraphHistory, GraphUpdate } from '@/engine/graphHistory';
+import { registryManager } from '@/engine/registry';
+import { gameDatabase, GameDatabase, EntityKind, ENTITY_KINDS } from '@/engine/gameDatabase';
+import { scriptManager, ScriptOutput, MAIN_SCRIPT_ID } from '@/engine/scripts';
+import { zipWriter } from '@/engine/zipWriter';
+import { tpcTokenizer } from '@/engine/tpcTokenizer';
+import { RegistryContext } from '@/contexts/RegistryContext';
+import { GameDatabaseContext } from '@/contexts/GameDatabaseContext';
+import { ScriptsContext } from '@/contexts/ScriptsContext';
+import { LayoutGrid, ArrowLeft, X } from 'lucide-react';
 
 import { Sidebar } from '@/components/Sidebar';
 import { NodeLibrary } from '@/components/NodeLibrary';
 import { ReactFlowGraphEditor } from '@/components/ReactFlowGraphEditor';
 import { CodePreview } from '@/components/CodePreview';
-import { DropdownMenu } from '@/components/DropdownMenu';
+import { ProblemsPanel } from '@/components/ProblemsPanel';
+import { FindPanel } from '@/components/FindPanel';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { RegistryPanel } from '@/components/RegistryPanel';
+import { ScriptTabs } from '@/components/ScriptTabs';
+import { DropdownMenu, DropdownSubmenu } from '@/components/DropdownMenu';
 import { Modal } from '@/components/Modal';
 
-const generateSignature = (cmd: any): string => {
-    let signature = cmd.base || cmd.command || '';
-    if (cmd.array_parameter) {
-        signature += '[...]';
-    }
-    if (cmd.subcommand) {
-        signature += cmd.subcommand;
-    }
-
-    const generateArgsSignature = (args: any[]): string => {
-        let argsSig = '';
-        if (!args) return argsSig;
-
-        for (const arg of args) {
-            if (arg.optional) break;
-
-            if (arg.type === 'keyword' || arg.type === 'assignment') {
-                argsSig += ` ${arg.value}`;
-            } else if (arg.type === 'Condition') {
-                argsSig += ' (Condition)';
-                break;
-            } else if (arg.type === 'group') {
-                if (arg.content) {
-                    argsSig += ` ${generateArgsSignature(arg.content)}`;
-                }
-                break; 
-            } else if (arg.type === 'base') {
-                argsSig += ` ${arg.name}`;
-                if (arg.array_parameter) argsSig += '[...]';
-            }
-            else {
-                break;
-            }
-        }
-        return argsSig.trim();
-    };
-
-    const argsSignature = generateArgsSignature(cmd.arguments);
-    if (argsSignature) {
-        signature += ` ${argsSignature}`;
-    }
-    
-    return signature;
-};
-
 const downloadJson = (content: object, fileName: string) => {
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(content, null, 2));
     const downloadAnchorNode = document.createElement('a');
@@ -73,6 +51,17 @@ const downloadJson = (content: object, fileName: string) => {
     downloadAnchorNode.remove();
 }
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const downloadAnchorNode = document.createElement('a');
+    downloadAnchorNode.setAttribute("href", url);
+    downloadAnchorNode.setAttribute("download", fileName);
+    document.body.appendChild(downloadAnchorNode);
+    downloadAnchorNode.click();
+    downloadAnchorNode.remove();
+    URL.revokeObjectURL(url);
+}
+
 const readFileAsText = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -83,21 +72,257 @@ const readFileAsText = (file: File): Promise<string> => {
 }
 
 
+// Keyboard shortcuts and clipboard events are left alone while a form field has focus.
+const isEditableTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement && !!target.closest('input, textarea, select, [contenteditable="true"]');
+
+// How far each paste or duplicate is moved from the copied nodes.
+const PASTE_OFFSET = 40;
+
+// Edits are autosaved this long after the last change, and at least this often during long bursts of edits.
+const AUTOSAVE_DELAY_MS = 1000;
+const AUTOSAVE_INTERVAL_MS = 10000;
+
+const NO_GENERATION_ERRORS: GenerationError[] = [];
+const NO_SOURCE_MAP: SourceMapEntry[] = [];
+const NO_SELECTION: string[] = [];
+
+const EMPTY_PROJECT_SNAPSHOT = JSON.stringify(projectLoader.serialize({ nodes: [], connections: [] }));
+
+// Applies an edit to the graph shown in the editor: the project itself (its main script),
+// one of its other scripts, or one of its subgraphs.
+const applyToView = (project: Graph, viewId: string | null, update: GraphUpdate): Graph => {
+    const script = scriptManager.getScript(project, viewId);
+    if (script) {
+        const view = scriptManager.getGraph(project, script.id);
+        const next = typeof update === 'function' ? update(view) : update;
+        if (next === view) return project;
+        return {
+            ...project,
+            scripts: project.scripts!.map(s => s.id === script.id
+                ? { ...s, nodes: next.nodes, connections: next.connections, frames: next.frames ?? s.frames }
+                : s),
+        };
+    }
+    const subgraph = viewId ? project.subgraphs?.find(sg => sg.id === viewId) : undefined;
+    if (!subgraph) {
+        const next = typeof update === 'function' ? update(project) : update;
+        return next === project ? project : {
+            ...next,
+            subgraphs: next.subgraphs ?? project.subgraphs,
+            frames: next.frames ?? project.frames,
+            registry: next.registry ?? project.registry,
+            scripts: next.scripts ?? project.scripts,
+            mainScript: next.mainScript ?? project.mainScript,
+        };
+    }
+    const next = typeof update === 'function' ? update(subgraph) : update;
+    if (next === subgraph) return project;
+    return {
+        ...project,
+        subgraphs: project.subgraphs!.map(sg => sg.id === subgraph.id
+            ? { ...sg, nodes: next.nodes, connections: next.connections, frames: next.frames ?? sg.frames }
+            : sg),
+    };
+};
+
 const App = () => {
-  const [definitions, setDefinitions] = useState<any[]>([]);
-  const [graph, setGraph] = useState<Graph>({ nodes: [], connections: [] });
-  const [generatedCode, setGeneratedCode] = useState('');
+  const [builtinDefinitions, setBuiltinDefinitions] = useState<any[]>([]);
+  const [definitionFiles, setDefinitionFiles] = useState<DefinitionFile[]>(() => customDefinitions.loadStored());
+  const [definitionFileErrors, setDefinitionFileErrors] = useState<string[]>([]);
+  const [database, setDatabase] = useState<GameDatabase>(() => gameDatabase.loadStored());
+  const [databaseErrors, setDatabaseErrors] = useState<string[]>([]);
+  // User definition files come after the built-in ones, so clashing types keep the built-in definition.
+  const customRegistration = useMemo(
+    () => customDefinitions.register(definitionFiles, new Set(builtinDefinitions.map(d => d.type))),
+    [definitionFiles, builtinDefinitions]
+  );
+  const definitions = useMemo(
+    () => [...builtinDefinitions, ...customRegistration.definitions],
+    [builtinDefinitions, customRegistration]
+  );
+  const [history, setHistory] = useState<GraphHistory>(() => graphHistory.create({ nodes: [], connections: [] }));
+  const projectGraph = graphHistory.present(history);
+  // The editor shows the script of the active tab, or the subgraph being edited.
+  const [activeScriptId, setActiveScriptId] = useState<string>(MAIN_SCRIPT_ID);
+  const activeScript = scriptManager.getScript(projectGraph, activeScriptId);
+  const scripts = useMemo(() => scriptManager.list(projectGraph), [projectGraph.scripts, projectGraph.mainScript]);
+  const scriptGraph = useMemo(
+    () => activeScript ? scriptManager.getGraph(projectGraph, activeScript.id) : null,
+    [projectGraph, activeScript]
+  );
+  const [editingSubgraphId, setEditingSubgraphId] = useState<string | null>(null);
+  const editingSubgraph = projectGraph.subgraphs?.find(sg => sg.id === editingSubgraphId) || null;
+  const graph: Graph = editingSubgraph || scriptGraph || projectGraph;
+  const viewId = editingSubgraph?.id ?? activeScript?.id ?? null;
+  // Include fields offer the other scripts. A subgraph may be used by any script, so there they offer all of them.
+  const scriptsContextValue = useMemo(
+    () => ({ scripts, activeScriptId: editingSubgraph ? null : activeScript?.id ?? MAIN_SCRIPT_ID }),
+    [scripts, editingSubgraph, activeScript]
+  );
+
+  const subgraphDefinitions = useMemo(
+    () => (projectGraph.subgraphs || []).map(subgraphManager.createDefinition),
+    [projectGraph.subgraphs]
+  );
+  const allDefinitions = useMemo(() => [...definitions, ...subgraphDefinitions], [definitions, subgraphDefinitions]);
+  // A subgraph can't be placed inside itself.
+  const placeableSubgraphDefinitions = useMemo(
+    () => subgraphDefinitions.filter(d => d.subgraphId !== viewId),
+    [subgraphDefinitions, viewId]
+  );
+  const placeableDefinitions = useMemo(
+    () => [...definitions, ...placeableSubgraphDefinitions],
+    [definitions, placeableSubgraphDefinitions]
+  );
+  // The code preview highlights the commands, subcommands and keywords of every loaded definition.
+  const codeKeywords = useMemo(() => tpcTokenizer.collectKeywords(definitions), [definitions]);
+  const [scriptOutputs, setScriptOutputs] = useState<ScriptOutput[]>([]);
+  const activeOutput = scriptOutputs.find(o => o.id === (activeScript?.id ?? MAIN_SCRIPT_ID));
+  const generatedCode = activeOutput?.code ?? '';
+  const generationErrors = activeOutput?.errors ?? NO_GENERATION_ERRORS;
+  // The `def` lines generated from the registry have no node to show.
+  const activeScriptNodes = (scriptGraph || projectGraph).nodes;
+  const sourceMap = useMemo(() => {
+    const nodeIds = new Set(activeScriptNodes.map(n => n.id));
+    return (activeOutput?.sourceMap ?? NO_SOURCE_MAP).filter(entry => nodeIds.has(entry.nodeId));
+  }, [activeOutput, activeScriptNodes]);
   const [loading, setLoading] = useState(true);
   const [loadingProgress, setLoadingProgress] = useState({ loaded: 0, total: 0 });
   const [projectName, setProjectName] = useState<string | null>(null);
 
-  type ModalType = null | 'newProject' | 'saveAs';
+  type ModalType = null | 'newProject' | 'saveAs' | 'remapNode' | 'collapseSubgraph' | 'definitionFiles' | 'gameDatabase' | 'restoreSession' | 'scriptSettings';
   const [activeModal, setActiveModal] = useState<ModalType>(null);
   const [promptValue, setPromptValue] = useState('');
+  const [remapTarget, setRemapTarget] = useState<{ nodeId: string; type: string } | null>(null);
   const promptInputRef = useRef<HTMLInputElement>(null);
 
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const pasteCountRef = useRef({ text: '', count: 0 });
+
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
+  const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+  // The project as last saved to or loaded from a file, to tell whether the session has unsaved changes.
+  const savedSnapshotRef = useRef(EMPTY_PROJECT_SNAPSHOT);
+  const autosaveRef = useRef({ pending: false, projectGraph, projectName });
+
+  // Read through a ref so setGraph keeps its identity when the view changes; a new one would make
+  // the editor write the nodes of the view it still shows into the new one.
+  const viewIdRef = useRef(viewId);
+  viewIdRef.current = viewId;
+
+  // Every user edit goes through setGraph and becomes an undoable history entry.
+  // It edits the graph shown in the editor.
+  const setGraph = useCallback((update: GraphUpdate, label: string, coalesceKey?: string) => {
+    const targetViewId = viewIdRef.current;
+    setHistory(h => graphHistory.commit(h, project => applyToView(project, targetViewId, update), label, coalesceKey));
+  }, []);
+
+  // Edits the whole project, including its subgraphs.
+  const setProjectGraph = useCallback((update: GraphUpdate, label: string, coalesceKey?: string) => {
+    setHistory(h => graphHistory.commit(h, update, label, coalesceKey));
+  }, []);
+
+  // For derived data (like evaluated JS results) that shouldn't create history entries.
+  const replaceGraph = useCallback((update: GraphUpdate) => {
+    const targetViewId = viewIdRef.current;
+    setHistory(h => graphHistory.replace(h, project => applyToView(project, targetViewId, update)));
+  }, []);
+
+  // Adds copies of the given nodes with fresh ids, moved down and right by `offset`. Their
+  // subgraphs, if any, are added to the project.
+  const addNodes = useCallback((nodesToAdd: Graph, offset: number, label: string) => {
+    if (nodesToAdd.nodes.length === 0) return;
+    const copy = projectLoader.cloneWithNewIds(nodesToAdd, { x: offset, y: offset });
+    const targetViewId = viewIdRef.current;
+    setProjectGraph(project => {
+      const updated = applyToView(project, targetViewId, g => ({
+        ...g,
+        nodes: [...g.nodes, ...copy.nodes],
+        connections: [...g.connections, ...copy.connections],
+      }));
+      const newSubgraphs = nodesToAdd.subgraphs || [];
+      return newSubgraphs.length > 0 ? { ...updated, subgraphs: [...(updated.subgraphs || []), ...newSubgraphs] } : updated;
+    }, label);
+  }, [setProjectGraph]);
+
+  const handleDuplicate = useCallback(() => {
+    const selection = projectLoader.extractSelection(graph, selectedNodeIds);
+    addNodes(selection, PASTE_OFFSET, `Duplicate ${selection.nodes.length} node${selection.nodes.length === 1 ? '' : 's'}`);
+  }, [graph, selectedNodeIds, addNodes]);
+
+  const handleUndo = useCallback(() => setHistory(h => graphHistory.undo(h)), []);
+  const handleRedo = useCallback(() => setHistory(h => graphHistory.redo(h)), []);
+  const handleJumpToHistory = useCallback((index: number) => setHistory(h => graphHistory.jumpTo(h, index)), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Leave text fields to their own undo.
+      if (isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (key === 'd' && !e.shiftKey) {
+        e.preventDefault();
+        handleDuplicate();
+      } else if (key === 'f' && !e.shiftKey) {
+        e.preventDefault();
+        setIsFindOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo, handleDuplicate]);
+
+  // Copy and paste go through the system clipboard, so nodes can move between tabs and projects.
+  useEffect(() => {
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || selectedNodeIds.length === 0) return;
+      // Let the browser copy selected text, e.g. from the code preview.
+      if (window.getSelection()?.isCollapsed === false) return;
+
+      e.clipboardData?.setData('text/plain', projectLoader.toClipboardText(graph, selectedNodeIds, projectGraph.subgraphs));
+      e.preventDefault();
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const text = e.clipboardData?.getData('text/plain') || '';
+      try {
+        const project = projectLoader.fromClipboardText(text);
+        if (!project) return;
+        e.preventDefault();
+
+        // Pasting the same nodes again moves each copy a step further.
+        const count = pasteCountRef.current.text === text ? pasteCountRef.current.count + 1 : 1;
+        pasteCountRef.current = { text, count };
+
+        // The copied subgraphs come along, unless they are already in this project.
+        const { graph: pastedGraph } = projectLoader.rehydrate(projectLoader.mergeClipboardSubgraphs(project, projectGraph.subgraphs || []), allDefinitions);
+        addNodes(pastedGraph, PASTE_OFFSET * count, `Paste ${pastedGraph.nodes.length} node${pastedGraph.nodes.length === 1 ? '' : 's'}`);
+      } catch (error) {
+        console.error("Failed to paste nodes:", error);
+        alert(`Failed to paste nodes. ${error instanceof Error ? error.message : ''}`);
+      }
+    };
+
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [graph, projectGraph.subgraphs, selectedNodeIds, allDefinitions, addNodes]);
+
   useEffect(() => {
-    if (activeModal === 'saveAs' && promptInputRef.current) {
+    if ((activeModal === 'saveAs' || activeModal === 'collapseSubgraph') && promptInputRef.current) {
       setTimeout(() => {
         promptInputRef.current?.focus();
         promptInputRef.current?.select();
@@ -112,47 +337,112 @@ const App = () => {
       const loadedDefs: any[] = [];
       const seenTypes = new Set<string>();
 
+      // All definition files arrive in one payload, keyed by their path.
+      let bundle: Record<string, unknown> = {};
+      try {
+        const res = await fetch(DEFINITIONS_URL);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        bundle = await res.json();
+      } catch (e) {
+        console.error(`Failed to load ${DEFINITIONS_URL}`, e);
+      }
+
       for (const filePath of allFiles) {
-        try {
-          const res = await fetch(filePath);
-          const commands = await res.json();
-          if (Array.isArray(commands)) {
-              commands.forEach((cmd, i) => {
-                  if (cmd.status === 'unclear') return;
-
-                  const type = cmd.template || `${cmd.command || cmd.base || 'unnamed'}_${filePath}_${i}`;
-
-                  if (seenTypes.has(type)) return;
-                  seenTypes.add(type);
-
-                  const displayName = cmd.command || cmd.base || 'Unnamed';
-                  const signature = generateSignature(cmd);
-                  const definition = nodeFactory.createNodeDefinition(cmd, type);
-                  
-                  loadedDefs.push({
-                    ...definition,
-                    sourceFile: filePath,
-                    type,
-                    displayName,
-                    signature
-                  });
-              });
-          }
-        } catch (e) {
-          console.error(`Failed to load ${filePath}`, e);
+        if (bundle[filePath] === undefined) {
+          console.error(`Missing definitions for ${filePath}`);
+          continue;
         }
-        setLoadingProgress(prev => ({ ...prev, loaded: prev.loaded + 1 }));
+        loadedDefs.push(...createDefinitionsFromFile(bundle[filePath], filePath, seenTypes));
       }
-      setDefinitions(loadedDefs);
+      setLoadingProgress({ loaded: allFiles.length, total: allFiles.length });
+      setBuiltinDefinitions(loadedDefs);
       setLoading(false);
     };
     loadData();
   }, []);
 
   useEffect(() => {
-    const code = codeGenerator.generate(graph);
-    setGeneratedCode(code);
-  }, [graph]);
+    setScriptOutputs(scriptManager.generateAll(projectGraph, definitions));
+  }, [projectGraph, definitions]);
+
+  const flushAutosave = useCallback(() => {
+    const state = autosaveRef.current;
+    if (!state.pending) return;
+    state.pending = false;
+    const project = projectLoader.serialize(state.projectGraph);
+    projectStorage.saveSession({
+      project,
+      projectName: state.projectName,
+      savedAt: Date.now(),
+      hasUnsavedChanges: JSON.stringify(project) !== savedSnapshotRef.current,
+    }).catch(error => console.error('Autosave failed', error));
+  }, []);
+
+  useEffect(() => {
+    const previous = autosaveRef.current;
+    if (previous.projectGraph === projectGraph && previous.projectName === projectName) return;
+    autosaveRef.current = { pending: true, projectGraph, projectName };
+    const timer = setTimeout(flushAutosave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectGraph, projectName, flushAutosave]);
+
+  useEffect(() => {
+    const interval = setInterval(flushAutosave, AUTOSAVE_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushAutosave();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [flushAutosave]);
+
+  // Once the definitions are loaded, offer to restore a session that ended with unsaved changes.
+  useEffect(() => {
+    if (loading) return;
+    projectStorage.listRecentProjects()
+      .then(setRecentProjects)
+      .catch(error => console.error('Failed to read recent projects', error));
+    projectStorage.loadSession()
+      .then(session => {
+        if (!session?.hasUnsavedChanges) return;
+        setPendingSession(session);
+        setActiveModal('restoreSession');
+      })
+      .catch(error => console.error('Failed to read the autosaved session', error));
+  }, [loading]);
+
+  // Generation errors point at the nodes of the active script, so they're only shown there.
+  const problems = useMemo(
+    () => graphValidator.validate(graph, editingSubgraph ? [] : generationErrors),
+    [graph, editingSubgraph, generationErrors]
+  );
+
+  const handleFocusNodes = useCallback((nodeIds: string[]) => {
+    window.dispatchEvent(new CustomEvent('reactflow-focus-nodes', { detail: { nodeIds } }));
+  }, []);
+
+  // Lines of the code preview come from the nodes of the active script, so a subgraph being
+  // edited is left first; the node is focused once the script is shown again.
+  const [pendingFocusNodeId, setPendingFocusNodeId] = useState<string | null>(null);
+  const handleShowCodeNode = useCallback((nodeId: string) => {
+    setEditingSubgraphId(null);
+    setPendingFocusNodeId(nodeId);
+  }, []);
+  useEffect(() => {
+    if (!pendingFocusNodeId || editingSubgraph) return;
+    handleFocusNodes([pendingFocusNodeId]);
+    setPendingFocusNodeId(null);
+  }, [pendingFocusNodeId, editingSubgraph, handleFocusNodes]);
+
+  // The code preview shows the active script, so its edits go there even while a subgraph is edited.
+  const handleApplyCodeEdit = useCallback((editedCode: string, keepUnparsed: boolean): CodeEditError[] => {
+    const result = codeSync.apply(scriptGraph || projectGraph, generatedCode, editedCode, sourceMap, definitions, keepUnparsed);
+    const edited = result.graph;
+    if (edited) setProjectGraph(project => applyToView(project, activeScript?.id ?? null, edited), 'Edit code');
+    return result.errors;
+  }, [scriptGraph, projectGraph, generatedCode, sourceMap, definitions, setProjectGraph, activeScript]);
 
   // This handles the real-time evaluation of special nodes like 'Evaluate JS Code'
   useEffect(() => {
@@ -160,90 +450,23 @@ const App = () => {
       return;
     }
 
-    const jsNodes = graph.nodes.filter(n => n.definition.nodeDef.command === 'Evaluate JS Code');
+    const jsNodes = graph.nodes.filter(n => n.definition.nodeDef.command === JS_NODE_COMMAND);
     if (jsNodes.length === 0) {
       return;
     }
 
     const evaluateNodes = async () => {
-      const nodeMap = new Map(graph.nodes.map(n => [n.id, n]));
-      const connectionsTo = new Map<string, Connection>();
-      graph.connections.forEach(c => connectionsTo.set(c.toSocket, c));
-
-      const getSocketValue = (node: NodeInstance, valueKey: string): any => {
-        const socketId = `${node.id}-${valueKey}`;
-        const connection = connectionsTo.get(socketId);
-        if (connection) {
-          const sourceNode = nodeMap.get(connection.fromNode);
-          if (sourceNode) {
-            const sourceSocketKey = connection.fromSocket.replace(`${connection.fromNode}-`, '');
-            if (sourceNode.definition.nodeDef.command === 'Evaluate JS Code') {
-              return sourceNode.values[`${sourceSocketKey}_result`];
-            }
-            return getSocketValue(sourceNode, sourceSocketKey);
-          }
-        }
-        return node.values[valueKey];
-      };
-
+      const evaluator = dataFlow.forGraph(graph);
       let needsUpdate = false;
       const updatedValues: { [nodeId: string]: { [valueKey: string]: any } } = {};
 
       const evaluationPromises = jsNodes.map(async (n) => {
-        const args = n.definition.nodeDef.arguments;
-
-        const codeArgIndex = args.findIndex((a: any) => a.type === 'JSCode');
-        if (codeArgIndex === -1) return;
-        const codeArg = args[codeArgIndex];
-
-        const codeKey = `${codeArgIndex}_${codeArg.name}`;
-        const resultKey = `${codeKey}_result`;
-        const code = getSocketValue(n, codeKey);
-
-        if (code === undefined || code === null || String(code).trim() === '') {
-          if (n.values[resultKey] !== '') {
-            if (!updatedValues[n.id]) updatedValues[n.id] = {};
-            updatedValues[n.id][resultKey] = '';
-            needsUpdate = true;
-          }
-          return;
-        }
-
-        const variables: { [key: string]: any } = {};
-        const varGroupArgIndex = args.findIndex((a: any) => a.name === 'variable');
-
-        if (varGroupArgIndex !== -1) {
-          const varGroupArg = args[varGroupArgIndex];
-          const varGroupKey = `${varGroupArgIndex}_${varGroupArg.name}`;
-          const varCount = getSocketValue(n, `${varGroupKey}_count`) || 0;
-          for (let i = 0; i < varCount; i++) {
-            const nameKey = `${varGroupKey}_${i}_0_name`;
-            const valueKey = `${varGroupKey}_${i}_1_value`;
-
-            const varName = getSocketValue(n, nameKey);
-            if (varName) {
-              const rawValue = getSocketValue(n, valueKey);
-              const parsedValue = !isNaN(parseFloat(rawValue)) && isFinite(rawValue) ? parseFloat(rawValue) : rawValue;
-              variables[varName] = parsedValue;
-            }
-          }
-        }
-
-        let resultString = '';
-        try {
-          const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
-          const varNames = Object.keys(variables);
-          const varValues = Object.values(variables);
-          const evaluator = new AsyncFunction(...varNames, `return ${code}`);
-          const result = await evaluator(...varValues);
-          resultString = String(result ?? '');
-        } catch (e) {
-          resultString = `/* Error: ${(e as Error).message.replace(/\s/g, ' ')} */`;
-        }
-        
-        if (n.values[resultKey] !== resultString) {
+        const inputs = evaluator.getJsInputs(n.id);
+        if (!inputs) return;
+        const resultString = await dataFlow.evaluateJsNode(inputs);
+        if ((n.values[inputs.resultKey] ?? '') !== resultString) {
           if (!updatedValues[n.id]) updatedValues[n.id] = {};
-          updatedValues[n.id][resultKey] = resultString;
+          updatedValues[n.id][inputs.resultKey] = resultString;
           needsUpdate = true;
         }
       });
@@ -251,7 +474,7 @@ const App = () => {
       await Promise.all(evaluationPromises);
 
       if (needsUpdate) {
-        setGraph(g => ({
+        replaceGraph(g => ({
           ...g,
           nodes: g.nodes.map(n => {
             if (updatedValues[n.id]) {
@@ -264,7 +487,7 @@ const App = () => {
     };
 
     evaluateNodes();
-  }, [graph, loading]);
+  }, [graph, loading, replaceGraph]);
 
   const handleDragStart = (e: React.DragEvent, type: string) => {
     e.dataTransfer.setData('application/tpc-node-editor', type);
@@ -272,7 +495,7 @@ const App = () => {
   };
 
   const handleNodeLibraryClick = useCallback((type: string) => {
-    const def = definitions.find(d => d.type === type);
+    const def = allDefinitions.find(d => d.type === type);
     if (def) {
       let position = { x: 200, y: 100 };
       if (graph.nodes.length > 0) {
@@ -283,15 +506,15 @@ const App = () => {
         position = { x: maxX + 320, y: minY }; // 320 is roughly node width + padding
       }
       const newNode = nodeFactory.createNodeInstance(def, position, def.displayName);
-      setGraph(g => ({ ...g, nodes: [...g.nodes, newNode] }));
+      setGraph(g => ({ ...g, nodes: [...g.nodes, newNode] }), `Add "${def.displayName}"`);
     }
-  }, [definitions, graph.nodes]);
+  }, [allDefinitions, graph.nodes, setGraph]);
 
   // Handle drop events from ReactFlow
   useEffect(() => {
     const handleReactFlowDrop = (event: CustomEvent) => {
       const { type, position, reactFlowBounds } = event.detail;
-      const def = definitions.find(d => d.type === type);
+      const def = allDefinitions.find(d => d.type === type);
       if (def && reactFlowBounds) {
         // Convert screen coordinates to ReactFlow coordinates
         const reactFlowPosition = {
@@ -299,26 +522,32 @@ const App = () => {
           y: position.y - reactFlowBounds.top - 20   // Account for node height
         };
         const newNode = nodeFactory.createNodeInstance(def, reactFlowPosition, def.displayName);
-        setGraph(g => ({ ...g, nodes: [...g.nodes, newNode] }));
+        setGraph(g => ({ ...g, nodes: [...g.nodes, newNode] }), `Add "${def.displayName}"`);
       }
     };
 
     window.addEventListener('reactflow-drop', handleReactFlowDrop as EventListener);
     return () => window.removeEventListener('reactflow-drop', handleReactFlowDrop as EventListener);
-  }, [definitions]);
+  }, [allDefinitions, setGraph]);
 
-  const handleValueChange = useCallback((nodeId: string, key: string, value: any) => {
+  // Sets values of the nodes as one edit. Find and replace changes many at once.
+  const setNodeValues = useCallback((changes: ValueChange[], label: string, coalesceKey?: string) => {
     setGraph(g => ({
       ...g,
       nodes: g.nodes.map(n => {
-        if (n.id === nodeId) {
-          return { ...n, values: {...n.values, [key]: value} };
+        const own = changes.filter(c => c.nodeId === n.id);
+        if (own.length > 0) {
+          return { ...n, values: { ...n.values, ...Object.fromEntries(own.map(c => [c.key, c.value])) } };
         }
         return n;
       }),
-    }));
+    }), label, coalesceKey);
   }, [setGraph]);
 
+  const handleValueChange = useCallback((nodeId: string, key: string, value: any) => {
+    setNodeValues([{ nodeId, key, value }], 'Edit value', `value:${nodeId}:${key}`);
+  }, [setNodeValues]);
+
   const handleRepeatableChange = useCallback((nodeId: string, listKey: string, action: 'add' | 'remove') => {
     setGraph(g => {
       const newNodes = g.nodes.map(n => {
@@ -344,21 +573,21 @@ const App = () => {
         return n;
       });
       return {...g, nodes: newNodes };
-    });
+    }, action === 'add' ? 'Add item' : 'Remove item');
   }, [setGraph]);
 
   const toggleNodeExpansion = useCallback((nodeId: string) => {
     setGraph(g => ({
       ...g,
       nodes: g.nodes.map(n => n.id === nodeId ? {...n, isExpanded: !n.isExpanded} : n)
-    }));
+    }), 'Toggle expansion');
   }, [setGraph]);
 
   const toggleNodeVisibility = useCallback((nodeId: string) => {
     setGraph(g => ({
       ...g,
       nodes: g.nodes.map(n => n.id === nodeId ? { ...n, isVisible: !n.isVisible } : n)
-    }));
+    }), 'Toggle visibility');
   }, [setGraph]);
 
   const deleteNode = useCallback((nodeId: string) => {
@@ -366,14 +595,62 @@ const App = () => {
       const newNodes = g.nodes.filter(n => n.id !== nodeId);
       const newConnections = g.connections.filter(c => c.fromNode !== nodeId && c.toNode !== nodeId);
       return { nodes: newNodes, connections: newConnections };
-    });
+    }, 'Delete node');
   }, [setGraph]);
   
+  const sortedDefinitions = useMemo(
+    () => [...definitions].sort((a, b) => a.displayName.localeCompare(b.displayName)),
+    [definitions]
+  );
+
+  const handleRemapNode = useCallback((nodeId: string) => {
+    const node = graph.nodes.find(n => n.id === nodeId);
+    // Suggest a definition with the same display name, as renamed commands usually keep it.
+    const suggestion = definitions.find(d => d.displayName === node?.displayName) || definitions[0];
+    setRemapTarget({ nodeId, type: suggestion?.type || '' });
+    setActiveModal('remapNode');
+  }, [graph.nodes, definitions]);
+
+  const confirmRemapNode = useCallback(() => {
+    const def = remapTarget && definitions.find(d => d.type === remapTarget.type);
+    if (remapTarget && def) {
+      const { nodeId } = remapTarget;
+      setGraph(g => {
+        const node = g.nodes.find(n => n.id === nodeId);
+        if (!node) return g;
+        const remapped = nodeFactory.remapNode(node, def);
+        const inputIds = new Set(remapped.sockets.inputs.map(s => s.id));
+        const outputIds = new Set(remapped.sockets.outputs.map(s => s.id));
+        // Keep the connections whose sockets still exist on the re-mapped node.
+        const newConnections = g.connections.filter(c =>
+          (c.fromNode !== nodeId || outputIds.has(c.fromSocket)) &&
+          (c.toNode !== nodeId || inputIds.has(c.toSocket))
+        );
+        return { nodes: g.nodes.map(n => n.id === nodeId ? remapped : n), connections: newConnections };
+      }, `Re-map to "${def.displayName}"`);
+    }
+    setRemapTarget(null);
+    setActiveModal(null);
+  }, [remapTarget, definitions, setGraph]);
+
   const confirmNewProject = useCallback(() => {
-    setGraph({ nodes: [], connections: [] });
+    setProjectGraph({ nodes: [], connections: [] }, 'New project');
+    setEditingSubgraphId(null);
+    setActiveScriptId(MAIN_SCRIPT_ID);
     setProjectName(null);
+    savedSnapshotRef.current = EMPTY_PROJECT_SNAPSHOT;
     setActiveModal(null);
-  }, []);
+  }, [setProjectGraph]);
+
+  // Marks the project as saved and keeps a copy of it in the recent projects.
+  const rememberProject = useCallback((name: string, project: ProjectFile) => {
+    savedSnapshotRef.current = JSON.stringify(project);
+    autosaveRef.current.pending = true;
+    flushAutosave();
+    projectStorage.saveRecentProject(name, project)
+      .then(setRecentProjects)
+      .catch(error => console.error('Failed to store the recent project', error));
+  }, [flushAutosave]);
   
   const handleNewProject = useCallback(() => {
       setActiveModal('newProject');
@@ -383,11 +660,13 @@ const App = () => {
     const fileName = promptValue.trim();
     if (fileName) {
         const finalFileName = fileName.endsWith('.json') ? fileName : `${fileName}.json`;
-        downloadJson(graph, finalFileName);
+        const project = projectLoader.serialize(projectGraph);
+        downloadJson(project, finalFileName);
         setProjectName(finalFileName);
+        rememberProject(finalFileName, project);
     }
     setActiveModal(null);
-  }, [graph, promptValue]);
+  }, [projectGraph, promptValue, rememberProject]);
 
   const handleSaveProjectAs = useCallback(() => {
     setPromptValue(projectName || 'tpc-project.json');
@@ -396,11 +675,13 @@ const App = () => {
 
   const handleSaveProject = useCallback(() => {
       if (projectName) {
-          downloadJson(graph, projectName);
+          const project = projectLoader.serialize(projectGraph);
+          downloadJson(project, projectName);
+          rememberProject(projectName, project);
       } else {
           handleSaveProjectAs();
       }
-  }, [graph, projectName, handleSaveProjectAs]);
+  }, [projectGraph, projectName, handleSaveProjectAs, rememberProject]);
 
   const handleLoadProject = useCallback(() => {
     const input = document.createElement('input');
@@ -411,14 +692,13 @@ const App = () => {
         if (file) {
             try {
                 const text = await readFileAsText(file);
-                const loadedGraph = JSON.parse(text);
-                // A simple validation to check if the file is a valid graph
-                if (loadedGraph.nodes && loadedGraph.connections) {
-                    setGraph(loadedGraph);
-                    setProjectName(file.name);
-                } else {
-                    alert('Invalid project file format.');
-                }
+                // Nodes of unknown types are kept as unresolved placeholders and listed as problems.
+                const { graph: loadedGraph } = projectLoader.load(JSON.parse(text), definitions);
+                setProjectGraph(loadedGraph, `Load ${file.name}`);
+                setEditingSubgraphId(null);
+                setActiveScriptId(MAIN_SCRIPT_ID);
+                setProjectName(file.name);
+                rememberProject(file.name, projectLoader.serialize(loadedGraph));
             } catch (error) {
                 console.error("Failed to load project:", error);
                 alert(`Failed to load project file. ${error instanceof Error ? error.message : ''}`);
@@ -426,6 +706,43 @@ const App = () => {
         }
     };
     input.click();
+  }, [definitions, setProjectGraph, rememberProject]);
+
+  const handleOpenRecentProject = useCallback((recent: RecentProject) => {
+    try {
+      const { graph: loadedGraph } = projectLoader.load(recent.project, definitions);
+      setProjectGraph(loadedGraph, `Open ${recent.name}`);
+      setEditingSubgraphId(null);
+      setActiveScriptId(MAIN_SCRIPT_ID);
+      setProjectName(recent.name);
+      rememberProject(recent.name, projectLoader.serialize(loadedGraph));
+    } catch (error) {
+      console.error('Failed to open recent project:', error);
+      alert(`Failed to open ${recent.name}. ${error instanceof Error ? error.message : ''}`);
+    }
+  }, [definitions, setProjectGraph, rememberProject]);
+
+  const confirmRestoreSession = useCallback(() => {
+    if (pendingSession) {
+      try {
+        const { graph: restoredGraph } = projectLoader.load(pendingSession.project, definitions);
+        setProjectGraph(restoredGraph, 'Restore unsaved session');
+        setEditingSubgraphId(null);
+        setActiveScriptId(MAIN_SCRIPT_ID);
+        setProjectName(pendingSession.projectName);
+      } catch (error) {
+        console.error('Failed to restore session:', error);
+        alert(`Failed to restore the unsaved session. ${error instanceof Error ? error.message : ''}`);
+      }
+    }
+    setPendingSession(null);
+    setActiveModal(null);
+  }, [pendingSession, definitions, setProjectGraph]);
+
+  const discardSession = useCallback(() => {
+    projectStorage.clearSession().catch(error => console.error('Failed to clear the autosaved session', error));
+    setPendingSession(null);
+    setActiveModal(null);
   }, []);
 
   const handleImportProject = useCallback(() => {
@@ -437,75 +754,39 @@ const App = () => {
         if (file) {
             try {
                 const text = await readFileAsText(file);
-                const loadedGraph: Graph = JSON.parse(text);
-
-                if (loadedGraph.nodes && loadedGraph.connections) {
-                    setGraph(currentGraph => {
-                        const idMap = new Map<string, string>();
-                        
-                        let offsetX = 0;
-                        if (currentGraph.nodes.length > 0) {
-                            const xPositions = currentGraph.nodes
-                                .map(n => n.position?.x)
-                                .filter(x => typeof x === 'number' && isFinite(x));
-    
-                            if (xPositions.length > 0) {
-                                offsetX = Math.max(...xPositions) + 350;
-                            }
+                const { graph: importedGraph } = projectLoader.load(JSON.parse(text), definitions);
+
+                // Imported nodes are added to the main script, together with the imported subgraphs and scripts.
+                setProjectGraph(currentGraph => {
+                    let offsetX = 0;
+                    if (currentGraph.nodes.length > 0) {
+                        const xPositions = currentGraph.nodes
+                            .map(n => n.position?.x)
+                            .filter(x => typeof x === 'number' && isFinite(x));
+
+                        if (xPositions.length > 0) {
+                            offsetX = Math.max(...xPositions) + 350;
                         }
-                        
-                        const newNodes = loadedGraph.nodes.map(loadedNode => {
-                            const definition = definitions.find(d => d.type === loadedNode.type);
-                            if (!definition) {
-                                console.warn(`Definition for type "${loadedNode.type}" not found. Skipping node.`);
-                                return null;
-                            }
-
-                            const newPosition = {
-                                x: loadedNode.position.x + offsetX,
-                                y: loadedNode.position.y
-                            };
-
-                            const newNode = nodeFactory.createNodeInstance(definition, newPosition, loadedNode.displayName);
-                            
-                            // Re-hydrate state from the loaded node
-                            newNode.values = { ...newNode.values, ...loadedNode.values };
-                            newNode.isExpanded = loadedNode.isExpanded;
-                            newNode.isVisible = loadedNode.isVisible;
-                            
-                            idMap.set(loadedNode.id, newNode.id);
-                            return newNode;
-                        }).filter((n): n is NodeInstance => n !== null);
-
-                        const newConnections = loadedGraph.connections.map(conn => {
-                            const newFromNode = idMap.get(conn.fromNode);
-                            const newToNode = idMap.get(conn.toNode);
-
-                            if (!newFromNode || !newToNode) {
-                                return null;
-                            }
-                            
-                            const fromSocketName = conn.fromSocket.replace(`${conn.fromNode}-`, '');
-                            const toSocketName = conn.toSocket.replace(`${conn.toNode}-`, '');
-
-                            return {
-                                ...conn,
-                                id: getUniqueId('edge'),
-                                fromNode: newFromNode,
-                                toNode: newToNode,
-                                fromSocket: `${newFromNode}-${fromSocketName}`,
-                                toSocket: `${newToNode}-${toSocketName}`,
-                            };
-                        }).filter((c): c is Connection => c !== null);
-
-                        return {
-                            nodes: [...currentGraph.nodes, ...newNodes],
-                            connections: [...currentGraph.connections, ...newConnections],
-                        };
-                    });
-                } else {
-                    alert('Invalid project file format.');
-                }
+                    }
+                    
+                    // Give every imported node a fresh id. Unresolved nodes are kept as placeholders.
+                    const newGraph = projectLoader.cloneWithNewIds(importedGraph, { x: offsetX, y: 0 });
+                    const knownSubgraphIds = new Set((currentGraph.subgraphs || []).map(sg => sg.id));
+                    return {
+                        nodes: [...currentGraph.nodes, ...newGraph.nodes],
+                        connections: [...currentGraph.connections, ...newGraph.connections],
+                        frames: [...(currentGraph.frames || []), ...(newGraph.frames || [])],
+                        subgraphs: [
+                            ...(currentGraph.subgraphs || []),
+                            ...(importedGraph.subgraphs || []).filter(sg => !knownSubgraphIds.has(sg.id)),
+                        ],
+                        registry: registryManager.merge(currentGraph.registry || registryManager.createEmpty(), importedGraph.registry || registryManager.createEmpty()),
+                        scripts: scriptManager.merge(currentGraph, importedGraph.scripts || []),
+                        mainScript: currentGraph.mainScript,
+                    };
+                }, `Import ${file.name}`);
+                setEditingSubgraphId(null);
+                setActiveScriptId(MAIN_SCRIPT_ID);
             } catch (error) {
                 console.error("Failed to import project:", error);
                 alert(`Failed to import project file. ${error instanceof Error ? error.message : ''}`);
@@ -513,7 +794,7 @@ const App = () => {
         }
     };
     input.click();
-  }, [definitions]);
+  }, [definitions, setProjectGraph]);
 
 
   const handleImportText = useCallback(() => {
@@ -525,8 +806,10 @@ const App = () => {
         if (file) {
             try {
                 const text = await readFileAsText(file);
-                const newGraph = importParser.parse(text, definitions, file.name);
-                setGraph(newGraph);
+                const newGraph = importParser.parse(text, definitions);
+                // The file replaces the active script, frames included; the rest of the project stays.
+                setProjectGraph(project => applyToView(project, activeScript?.id ?? null, { ...newGraph, frames: [] }), `Import ${file.name}`);
+                setEditingSubgraphId(null);
             } catch (error) {
                 console.error("Failed to import text file:", error);
                 alert(`Failed to import text file. ${error instanceof Error ? error.message : ''}`);
@@ -534,8 +817,193 @@ const App = () => {
         }
     };
     input.click();
-  }, [definitions, setGraph]);
+  }, [definitions, setProjectGraph, activeScript]);
+
+  const handleArrange = useCallback((selectionOnly: boolean) => {
+    if (selectionOnly && selectedNodeIds.length === 0) {
+      alert('Select the nodes to arrange first.');
+      return;
+    }
+    const detail = { nodeIds: selectionOnly ? selectedNodeIds : undefined };
+    window.dispatchEvent(new CustomEvent('reactflow-arrange-nodes', { detail }));
+  }, [selectedNodeIds]);
+
+  const registry = useMemo(() => projectGraph.registry || registryManager.createEmpty(), [projectGraph.registry]);
+  const handleRegistryChange = useCallback((update: (registry: Registry) => Registry, label: string, coalesceKey?: string) => {
+    setProjectGraph(g => ({ ...g, registry: update(g.registry || registryManager.createEmpty()) }), label, coalesceKey);
+  }, [setProjectGraph]);
+
+  // The script being added (without an id yet) or edited in the script settings dialog.
+  const [scriptDraft, setScriptDraft] = useState<{ id: string | null; name: string; fileName: string } | null>(null);
+  const [scriptDraftError, setScriptDraftError] = useState<string | null>(null);
+
+  const handleSelectScript = useCallback((scriptId: string) => {
+    setEditingSubgraphId(null);
+    setActiveScriptId(scriptId);
+  }, []);
+
+  const handleAddScript = useCallback(() => {
+    const name = `Script ${scripts.length + 1}`;
+    setScriptDraft({ id: null, name, fileName: scriptManager.getFreeFileName(projectGraph, scriptManager.toFileName(name)) });
+    setScriptDraftError(null);
+    setActiveModal('scriptSettings');
+  }, [scripts, projectGraph]);
+
+  const handleEditScript = useCallback((scriptId: string) => {
+    const script = scripts.find(s => s.id === scriptId);
+    if (!script) return;
+    setScriptDraft({ ...script });
+    setScriptDraftError(null);
+    setActiveModal('scriptSettings');
+  }, [scripts]);
+
+  const confirmScriptSettings = useCallback(() => {
+    if (!scriptDraft) return;
+    const name = scriptDraft.name.trim();
+    const fileName = scriptDraft.fileName.trim();
+    const error = name ? scriptManager.validateFileName(projectGraph, fileName, scriptDraft.id) : 'The script name is required.';
+    if (error) {
+      setScriptDraftError(error);
+      return;
+    }
+    const { id } = scriptDraft;
+    if (id === null) {
+      const script = scriptManager.create(name, fileName);
+      setProjectGraph(g => ({ ...g, scripts: [...(g.scripts || []), script] }), `Add script "${name}"`);
+      handleSelectScript(script.id);
+    } else {
+      setProjectGraph(g => scriptManager.update(g, id, name, fileName), `Edit script "${name}"`);
+    }
+    setScriptDraft(null);
+    setActiveModal(null);
+  }, [scriptDraft, projectGraph, setProjectGraph, handleSelectScript]);
+
+  const handleDeleteScript = useCallback((scriptId: string) => {
+    const script = scripts.find(s => s.id === scriptId);
+    if (!script) return;
+    setProjectGraph(g => scriptManager.remove(g, scriptId), `Delete script "${script.name}"`);
+    if (scriptId === activeScriptId) handleSelectScript(MAIN_SCRIPT_ID);
+  }, [scripts, activeScriptId, setProjectGraph, handleSelectScript]);
+
+  // Downloads the generated code of every script in one zip archive, one file per script.
+  const handleExportScripts = useCallback(() => {
+    const archive = zipWriter.write(scriptOutputs.map(output => ({ name: output.fileName, content: `${output.code}\n` })));
+    const baseName = (projectName || 'project').replace(/\.json$/i, '');
+    downloadBlob(new Blob([archive], { type: 'application/zip' }), `${baseName}.zip`);
+  }, [scriptOutputs, projectName]);
+
+  // Frames the selected nodes, or adds an empty frame in the middle of the view.
+  const handleAddFrame = useCallback(() => {
+    window.dispatchEvent(new CustomEvent('reactflow-add-frame', { detail: { nodeIds: selectedNodeIds } }));
+  }, [selectedNodeIds]);
+
+  const handleCollapseSelection = useCallback(() => {
+    if (selectedNodeIds.length === 0) {
+      alert('Select the nodes to collapse first.');
+      return;
+    }
+    setPromptValue('Subgraph');
+    setActiveModal('collapseSubgraph');
+  }, [selectedNodeIds]);
+
+  const confirmCollapseSelection = useCallback(() => {
+    const name = promptValue.trim();
+    if (!name) return;
+    try {
+      const { graph: collapsedView, subgraph } = subgraphManager.collapse(graph, selectedNodeIds, name);
+      setProjectGraph(project => {
+        const updated = applyToView(project, viewId, collapsedView);
+        return { ...updated, subgraphs: [...(updated.subgraphs || []), subgraph] };
+      }, `Collapse into "${name}"`);
+    } catch (error) {
+      alert(`Cannot collapse the selection. ${error instanceof Error ? error.message : ''}`);
+    }
+    setActiveModal(null);
+  }, [graph, selectedNodeIds, promptValue, viewId, setProjectGraph]);
+
+  // Files with the name of an existing file replace it.
+  const handleAddDefinitionFiles = useCallback(async (files: File[]) => {
+    const added: DefinitionFile[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        added.push(customDefinitions.parse(file.name, await readFileAsText(file)));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `Failed to read ${file.name}.`);
+      }
+    }
+    const next = [...definitionFiles.filter(f => !added.some(a => a.name === f.name)), ...added];
+    try {
+      customDefinitions.store(next);
+    } catch (error) {
+      errors.push('The definition files could not be saved in browser storage and will be gone after a reload.');
+    }
+    setDefinitionFiles(next);
+    setDefinitionFileErrors(errors);
+  }, [definitionFiles]);
+
+  const handleChooseDefinitionFiles = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.multiple = true;
+    input.onchange = (e) => {
+      const files = Array.from((e.target as HTMLInputElement).files || []);
+      if (files.length > 0) handleAddDefinitionFiles(files);
+    };
+    input.click();
+  }, [handleAddDefinitionFiles]);
+
+  const handleRemoveDefinitionFile = useCallback((name: string) => {
+    const next = definitionFiles.filter(f => f.name !== name);
+    try {
+      customDefinitions.store(next);
+    } catch (error) {
+      console.error('Failed to store definition files', error);
+    }
+    setDefinitionFiles(next);
+  }, [definitionFiles]);
+
+  const handleImportDatabaseFiles = useCallback(async (files: File[]) => {
+    const errors: string[] = [];
+    let next = database;
+    for (const file of files) {
+      try {
+        next = gameDatabase.merge(next, gameDatabase.parse(file.name, await readFileAsText(file)));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `Failed to read ${file.name}.`);
+      }
+    }
+    try {
+      gameDatabase.store(next);
+    } catch (error) {
+      errors.push('The names could not be saved in browser storage and will be gone after a reload.');
+    }
+    setDatabase(next);
+    setDatabaseErrors(errors);
+  }, [database]);
 
+  const handleChooseDatabaseFiles = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.edb,.emt,.xml';
+    input.multiple = true;
+    input.onchange = (e) => {
+      const files = Array.from((e.target as HTMLInputElement).files || []);
+      if (files.length > 0) handleImportDatabaseFiles(files);
+    };
+    input.click();
+  }, [handleImportDatabaseFiles]);
+
+  const handleClearDatabase = useCallback(() => {
+    try {
+      gameDatabase.store({});
+    } catch (error) {
+      console.error('Failed to clear the stored game database', error);
+    }
+    setDatabase({});
+    setDatabaseErrors([]);
+  }, []);
 
   if (loading) {
     return <Preloader loaded={loadingProgress.loaded} total={loadingProgress.total} />;
@@ -552,12 +1020,40 @@ const App = () => {
             <DropdownMenu trigger={<button className="menu-button">File</button>} align="right">
                 <button className="dropdown-item" onClick={handleNewProject}>New Project</button>
                 <div className="dropdown-separator" />
+                <button className="dropdown-item" onClick={() => { setDefinitionFileErrors([]); setActiveModal('definitionFiles'); }}>Definition Files...</button>
+                <button className="dropdown-item" onClick={() => { setDatabaseErrors([]); setActiveModal('gameDatabase'); }}>Game Database...</button>
+                <div className="dropdown-separator" />
                 <button className="dropdown-item" onClick={handleLoadProject}>Load Project...</button>
+                <DropdownSubmenu label="Recent Projects">
+                    {recentProjects.length === 0 ? (
+                        <span className="dropdown-empty">No recent projects</span>
+                    ) : recentProjects.map(recent => (
+                        <button
+                            key={recent.name}
+                            className="dropdown-item"
+                            onClick={() => handleOpenRecentProject(recent)}
+                            title={`Saved ${new Date(recent.savedAt).toLocaleString()}`}
+                        >
+                            {recent.name}
+                        </button>
+                    ))}
+                </DropdownSubmenu>
                 <div className="dropdown-separator" />
                 <button className="dropdown-item" onClick={handleSaveProject}>
                     Save Project {projectName ? `(${projectName})` : ''}
                 </button>
                 <button className="dropdown-item" onClick={handleSaveProjectAs}>Save Project As...</button>
+                <div className="dropdown-separator" />
+                <button className="dropdown-item" onClick={handleExportScripts}>Export Scripts (.zip)</button>
+            </DropdownMenu>
+            <DropdownMenu trigger={<button className="menu-button">Graph</button>} align="right">
+                <button className="dropdown-item" onClick={() => handleArrange(false)}>Arrange All</button>
+                <button className="dropdown-item" onClick={() => handleArrange(true)}>Arrange Selection</button>
+                <div className="dropdown-separator" />
+                <button className="dropdown-item" onClick={handleAddFrame}>Add Frame</button>
+                <button className="dropdown-item" onClick={handleCollapseSelection}>Collapse Selection to Subgraph...</button>
+                <div className="dropdown-separator" />
+                <button className="dropdown-item" onClick={() => setIsFindOpen(true)}>Find and Replace...</button>
             </DropdownMenu>
             <DropdownMenu trigger={<button className="menu-button">Import</button>} align="right">
                 <button className="dropdown-item" onClick={handleImportText}>From Text File...</button>
@@ -568,21 +1064,74 @@ const App = () => {
       <main className="app-main">
         <div className="app-container">
           <Sidebar width={250}>
-            <NodeLibrary definitions={definitions} onDragStart={handleDragStart} onClick={(e, type) => handleNodeLibraryClick(type)} />
+            <NodeLibrary
+              definitions={builtinDefinitions}
+              customDefinitions={customRegistration.definitions}
+              subgraphDefinitions={placeableSubgraphDefinitions}
+              onDragStart={handleDragStart}
+              onClick={(e, type) => handleNodeLibraryClick(type)}
+            />
+            <RegistryPanel registry={registry} onChange={handleRegistryChange} />
           </Sidebar>
           <div className="main-content">
-            <ReactFlowGraphEditor 
-              graph={graph} 
-              setGraph={setGraph}
-              onValueChange={handleValueChange}
-              onToggleExpansion={toggleNodeExpansion}
-              onToggleVisibility={toggleNodeVisibility}
-              onRepeatableChange={handleRepeatableChange}
-              onDelete={deleteNode}
+            <ScriptTabs
+              scripts={scripts}
+              activeScriptId={activeScript?.id ?? MAIN_SCRIPT_ID}
+              onSelect={handleSelectScript}
+              onAdd={handleAddScript}
+              onEdit={handleEditScript}
+              onDelete={handleDeleteScript}
             />
+            <div className="graph-editor-area">
+              {editingSubgraph && (
+                <div className="subgraph-bar">
+                  <button className="button" onClick={() => setEditingSubgraphId(null)}>
+                    <ArrowLeft size={14} aria-hidden="true" /> Back to script
+                  </button>
+                  <span>Editing subgraph <strong>{editingSubgraph.name}</strong></span>
+                </div>
+              )}
+              {isFindOpen && (
+                <FindPanel
+                  nodes={graph.nodes}
+                  onFocusNode={(nodeId) => handleFocusNodes([nodeId])}
+                  onReplaceAll={setNodeValues}
+                  onClose={() => setIsFindOpen(false)}
+                />
+              )}
+              <RegistryContext.Provider value={registry}>
+                <GameDatabaseContext.Provider value={database}>
+                  <ScriptsContext.Provider value={scriptsContextValue}>
+                    <ReactFlowGraphEditor 
+                      graph={graph} 
+                      definitions={placeableDefinitions}
+                      setGraph={setGraph}
+                      onValueChange={handleValueChange}
+                      onToggleExpansion={toggleNodeExpansion}
+                      onToggleVisibility={toggleNodeVisibility}
+                      onRepeatableChange={handleRepeatableChange}
+                      onDelete={deleteNode}
+                      onRemap={handleRemapNode}
+                      onOpenSubgraph={setEditingSubgraphId}
+                      onSelectionChange={setSelectedNodeIds}
+                      problems={problems}
+                    />
+                  </ScriptsContext.Provider>
+                </GameDatabaseContext.Provider>
+              </RegistryContext.Provider>
+            </div>
           </div>
           <Sidebar width={350}>
-            <CodePreview code={generatedCode} />
+            <CodePreview
+              code={generatedCode}
+              keywords={codeKeywords}
+              sourceMap={sourceMap}
+              selectedNodeIds={editingSubgraph ? NO_SELECTION : selectedNodeIds}
+              onShowNode={handleShowCodeNode}
+              onApplyEdit={handleApplyCodeEdit}
+            />
+            <ProblemsPanel problems={problems} onFocusNodes={handleFocusNodes} />
+            <HistoryPanel history={history} onJump={handleJumpToHistory} onUndo={handleUndo} onRedo={handleRedo} />
           </Sidebar>
         </div>
       </main>
@@ -626,6 +1175,195 @@ const App = () => {
         />
       </Modal>
 
+      <Modal
+        isOpen={activeModal === 'collapseSubgraph'}
+        onClose={() => setActiveModal(null)}
+        title="Collapse to Subgraph"
+        footer={
+          <>
+            <button className="button" onClick={() => setActiveModal(null)}>Cancel</button>
+            <button className="button button-primary" onClick={confirmCollapseSelection}>Collapse</button>
+          </>
+        }
+      >
+        <p>Enter a name for the new subgraph:</p>
+        <input
+          ref={promptInputRef}
+          type="text"
+          className="input-base"
+          value={promptValue}
+          onChange={(e) => setPromptValue(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); confirmCollapseSelection(); } }}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={activeModal === 'remapNode'}
+        onClose={() => setActiveModal(null)}
+        title="Re-map Node"
+        footer={
+          <>
+            <button className="button" onClick={() => setActiveModal(null)}>Cancel</button>
+            <button className="button button-primary" onClick={confirmRemapNode} disabled={!remapTarget?.type}>Re-map</button>
+          </>
+        }
+      >
+        <p>Choose the definition to use for this node. Values and connections that fit the new definition are kept.</p>
+        <select
+          className="input-base"
+          value={remapTarget?.type || ''}
+          onChange={(e) => setRemapTarget(t => t && { ...t, type: e.target.value })}
+        >
+          {sortedDefinitions.map(d => (
+            <option key={d.type} value={d.type}>{d.signature || d.displayName}</option>
+          ))}
+        </select>
+      </Modal>
+
+      <Modal
+        isOpen={activeModal === 'restoreSession'}
+        onClose={() => setActiveModal(null)}
+        title="Restore Unsaved Session"
+        footer={
+          <>
+            <button className="button button-danger" onClick={discardSession}>Discard</button>
+            <button className="button button-primary" onClick={confirmRestoreSession}>Restore</button>
+          </>
+        }
+      >
+        <p>
+          The editor was closed with unsaved changes
+          {pendingSession?.projectName ? <> to <strong>{pendingSession.projectName}</strong></> : null}
+          {pendingSession ? ` (autosaved ${new Date(pendingSession.savedAt).toLocaleString()})` : ''}.
+          Do you want to restore them?
+        </p>
+      </Modal>
+
+      <Modal
+        isOpen={activeModal === 'definitionFiles'}
+        onClose={() => setActiveModal(null)}
+        title="Definition Files"
+        footer={
+          <>
+            <button className="button" onClick={handleChooseDefinitionFiles}>Add Files...</button>
+            <button className="button button-primary" onClick={() => setActiveModal(null)}>Done</button>
+          </>
+        }
+      >
+        <p>Add command definition files in the same format as the built-in ones. Their commands appear under "Custom" in the node library and are kept in this browser.</p>
+        <div
+          className="definition-files-dropzone"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleAddDefinitionFiles(Array.from(e.dataTransfer.files));
+          }}
+        >
+          {definitionFiles.length === 0 ? (
+            <span className="definition-files-empty">Drop .json files here</span>
+          ) : (
+            <ul className="definition-files-list">
+              {definitionFiles.map(file => (
+                <li key={file.name}>
+                  <span>{file.name}</span>
+                  <span className="definition-files-count">{file.commands.length} commands</span>
+                  <button className="icon-button icon-button-danger" onClick={() => handleRemoveDefinitionFile(file.name)} aria-label={`Remove ${file.name}`} title="Remove">
+                    <X size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {(definitionFileErrors.length > 0 || customRegistration.conflicts.length > 0) && (
+          <ul className="definition-files-problems">
+            {definitionFileErrors.map(message => <li key={message}>{message}</li>)}
+            {customRegistration.conflicts.map(({ file, type }) => (
+              <li key={`${file}:${type}`}>{file}: type "{type}" is already defined, so this command was ignored.</li>
+            ))}
+          </ul>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={activeModal === 'gameDatabase'}
+        onClose={() => setActiveModal(null)}
+        title="Game Database"
+        footer={
+          <>
+            <button className="button button-danger" onClick={handleClearDatabase} disabled={Object.keys(database).length === 0}>Clear</button>
+            <button className="button" onClick={handleChooseDatabaseFiles}>Import Files...</button>
+            <button className="button button-primary" onClick={() => setActiveModal(null)}>Done</button>
+          </>
+        }
+      >
+        <p>Import the database (RPG_RT.edb) and map tree (RPG_RT.emt) written by EasyRPG's lcf2xml. Fields that take an actor, item, map or other database ID then list the names, which are kept in this browser.</p>
+        <div
+          className="definition-files-dropzone"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleImportDatabaseFiles(Array.from(e.dataTransfer.files));
+          }}
+        >
+          <span className="definition-files-empty">Drop .edb or .emt files here</span>
+        </div>
+        {Object.keys(database).length > 0 && (
+          <dl className="game-database-summary">
+            {(Object.keys(ENTITY_KINDS) as EntityKind[]).filter(kind => database[kind]).map(kind => (
+              <React.Fragment key={kind}>
+                <dt>{ENTITY_KINDS[kind].label}</dt>
+                <dd>{gameDatabase.getEntries(database, kind).length}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )}
+        {databaseErrors.length > 0 && (
+          <ul className="definition-files-problems">
+            {databaseErrors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={activeModal === 'scriptSettings'}
+        onClose={() => setActiveModal(null)}
+        title={scriptDraft?.id === null ? 'Add Script' : 'Script Settings'}
+        footer={
+          <>
+            <button className="button" onClick={() => setActiveModal(null)}>Cancel</button>
+            <button className="button button-primary" onClick={confirmScriptSettings}>{scriptDraft?.id === null ? 'Add' : 'Save'}</button>
+          </>
+        }
+      >
+        {scriptDraft && (
+          <div className="script-settings">
+            <label>
+              Name
+              <input
+                type="text"
+                className="input-base"
+                value={scriptDraft.name}
+                onChange={(e) => setScriptDraft({ ...scriptDraft, name: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); confirmScriptSettings(); } }}
+                autoFocus
+              />
+            </label>
+            <label>
+              Output file
+              <input
+                type="text"
+                className="input-base"
+                value={scriptDraft.fileName}
+                onChange={(e) => setScriptDraft({ ...scriptDraft, fileName: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); confirmScriptSettings(); } }}
+              />
+            </label>
+            {scriptDraftError && <p className="script-settings-error">{scriptDraftError}</p>}
+          </div>
+        )}
+      </Modal>
+
     </div>
   );
 };
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createDefinitionBundle, discoverDefinitionFiles } from '@/build/definitionBundle';
+import { createDefinitionsFromFile } from '@/engine/definitionLoader';
+
+const DATA_DIR = path.resolve(__dirname, '../data');
+
+describe('discoverDefinitionFiles', () => {
+  let tempDir: string | null = null;
+  afterEach(() => {
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it('lists the built-in categories in their fixed order', () => {
+    expect(Object.keys(discoverDefinitionFiles(DATA_DIR))).toEqual(['Utility', 'Directives', 'Event_Commands', 'Expressions', 'Meta_commands']);
+  });
+
+  it('puts new folders after the built-in ones and keeps the first definition of a type', () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'definitions-'));
+    const write = (folder: string, file: string, commands: unknown[]) => {
+      fs.mkdirSync(path.join(tempDir!, folder), { recursive: true });
+      fs.writeFileSync(path.join(tempDir!, folder, file), JSON.stringify(commands));
+    };
+    const command = (description: string) => ({ command: '@same', template: '@same (String)', description, arguments: [] });
+    write('Aaa_Custom', 'command_1.json', [command('custom')]);
+    write('Meta_commands', 'command_1.json', [command('meta')]);
+    write('Utility', 'command_10.json', [command('utility 10')]);
+    write('Utility', 'command_9.json', [command('utility 9')]);
+
+    const categories = discoverDefinitionFiles(tempDir);
+    expect(categories).toEqual({
+      Utility: ['data/Utility/command_9.json', 'data/Utility/command_10.json'],
+      Meta_commands: ['data/Meta_commands/command_1.json'],
+      Aaa_Custom: ['data/Aaa_Custom/command_1.json'],
+    });
+
+    const bundle = createDefinitionBundle(tempDir, categories);
+    const seenTypes = new Set<string>();
+    const definitions = Object.values(categories).flat().flatMap(filePath => createDefinitionsFromFile(bundle[filePath], filePath, seenTypes));
+    expect(definitions).toHaveLength(1);
+    expect(definitions[0].sourceFile).toBe('data/Utility/command_9.json');
+  });
+});
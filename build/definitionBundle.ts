@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { Plugin, ViteDevServer } from 'vite';
+
+const VIRTUAL_MODULE_ID = 'virtual:definition-manifest';
+const RESOLVED_VIRTUAL_MODULE_ID = `\0${VIRTUAL_MODULE_ID}`;
+const DEV_BUNDLE_PATH = 'definitions.json';
+
+// Sorts `command_9_...` before `command_10_...`.
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, 'en', { numeric: true });
+
+// The categories of the library, in order. The first definition of a type wins, so a command
+// defined in several folders takes its definition from the first of them. Other folders follow
+// in natural order.
+const FOLDER_ORDER = ['Utility', 'Directives', 'Event_Commands', 'Expressions', 'Meta_commands'];
+
+const compareFolders = (a: string, b: string) => {
+  const rank = (folder: string) => {
+    const index = FOLDER_ORDER.indexOf(folder);
+    return index === -1 ? FOLDER_ORDER.length : index;
+  };
+  return rank(a) - rank(b) || naturalCompare(a, b);
+};
+
+/**
+ * Finds the definition files in `dataDir`. Each folder is a category and its `.json` files
+ * are listed as `data/<folder>/<file>`, the folders as in FOLDER_ORDER and the files in natural
+ * order. That is also the order in which they are loaded (the first definition of a type wins).
+ */
+export const discoverDefinitionFiles = (dataDir: string): Record<string, string[]> => {
+  const categories: Record<string, string[]> = {};
+  const folders = fs.readdirSync(dataDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort(compareFolders);
+
+  for (const folder of folders) {
+    const files = fs.readdirSync(path.join(dataDir, folder))
+      .filter(file => file.endsWith('.json'))
+      .sort(naturalCompare);
+    if (files.length > 0) {
+      categories[folder] = files.map(file => `data/${folder}/${file}`);
+    }
+  }
+  return categories;
+};
+
+// The commands of every definition file, keyed by the paths from `discoverDefinitionFiles`.
+export const createDefinitionBundle = (dataDir: string, categories: Record<string, string[]>): Record<string, unknown> => {
+  const bundle: Record<string, unknown> = {};
+  for (const filePath of Object.values(categories).flat()) {
+    const diskPath = path.join(dataDir, filePath.replace(/^data\//, ''));
+    try {
+      bundle[filePath] = JSON.parse(fs.readFileSync(diskPath, 'utf8'));
+    } catch (e) {
+      throw new Error(`Invalid definition file ${diskPath}: ${(e as Error).message}`);
+    }
+  }
+  return bundle;
+};
+
+/**
+ * Provides `virtual:definition-manifest`, which exports the discovered `DATA_FILES` and the URL
+ * of a single JSON payload holding all of their commands. Builds emit the payload under a
+ * content-hashed name so it can be cached; the dev server serves it fresh on every request.
+ */
+export const definitionBundlePlugin = (dataDir: string): Plugin => {
+  let isBuild = false;
+
+  return {
+    name: 'tpc-definition-bundle',
+
+    configResolved(config) {
+      isBuild = config.command === 'build';
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_MODULE_ID ? RESOLVED_VIRTUAL_MODULE_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_MODULE_ID) return null;
+      const categories = discoverDefinitionFiles(dataDir);
+      let url = DEV_BUNDLE_PATH;
+
+      if (isBuild) {
+        const source = JSON.stringify(createDefinitionBundle(dataDir, categories));
+        const hash = crypto.createHash('sha256').update(source).digest('hex').slice(0, 8);
+        url = `assets/definitions-${hash}.json`;
+        this.emitFile({ type: 'asset', fileName: url, source });
+      }
+
+      return [
+        `export const DATA_FILES = ${JSON.stringify(categories)};`,
+        `export const DEFINITIONS_URL = ${JSON.stringify(url)};`,
+      ].join('\n');
+    },
+
+    configureServer(server: ViteDevServer) {
+      server.middlewares.use(`/${DEV_BUNDLE_PATH}`, (req, res) => {
+        try {
+          const source = JSON.stringify(createDefinitionBundle(dataDir, discoverDefinitionFiles(dataDir)));
+          res.setHeader('Content-Type', 'application/json');
+          res.setHeader('Cache-Control', 'no-cache');
+          res.end(source);
+        } catch (e) {
+          res.statusCode = 500;
+          res.end((e as Error).message);
+        }
+      });
+
+      // Adding, removing or editing a definition file reloads the page with the new set.
+      server.watcher.add(dataDir);
+      const onDataChange = (file: string) => {
+        if (!file.startsWith(dataDir) || !file.endsWith('.json')) return;
+        const module = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_MODULE_ID);
+        if (module) server.moduleGraph.invalidateModule(module);
+        server.ws.send({ type: 'full-reload' });
+      };
+      server.watcher.on('add', onDataChange);
+      server.watcher.on('unlink', onDataChange);
+      server.watcher.on('change', onDataChange);
+    },
+  };
+};
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { discoverDefinitionFiles } from '@/build/definitionBundle';
+import { createDefinitionsFromFile } from '@/engine/definitionLoader';
+import { projectLoader, ProjectFile } from '@/engine/projectLoader';
+import { scriptManager, ScriptOutput } from '@/engine/scripts';
+
+const USAGE = `Usage:
+  tpc-graph build <project.json> [-o <out.tpc>]
+  tpc-graph build <folder> [-o <out-folder>]
+
+Compiles saved editor projects into TPC code. Given a folder, every .json project
+in it is compiled to a .tpc file of the same name. The other scripts of a project
+are written next to it, to the files named in the project.
+
+Options:
+  -o, --out <path>   Output file of the main script (single project) or folder (batch).
+                     A single project with one script is printed to stdout when
+                     omitted; a batch is written next to the projects.
+  --data <folder>    Folder holding the command definitions (default: the editor's data/).
+  -h, --help         Show this help.`;
+
+const DEFAULT_DATA_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../data');
+
+const loadDefinitions = (dataDir: string): any[] => {
+  const definitions: any[] = [];
+  const seenTypes = new Set<string>();
+  let categories: Record<string, string[]>;
+  try {
+    categories = discoverDefinitionFiles(dataDir);
+  } catch (e) {
+    console.error(`error: cannot read definitions folder ${dataDir}: ${(e as Error).message}`);
+    return definitions;
+  }
+  // The discovered paths are relative to the editor root and start with `data/`.
+  for (const filePath of Object.values(categories).flat()) {
+    const diskPath = path.join(dataDir, filePath.replace(/^data\//, ''));
+    try {
+      const commands = JSON.parse(fs.readFileSync(diskPath, 'utf8'));
+      definitions.push(...createDefinitionsFromFile(commands, filePath, seenTypes));
+    } catch (e) {
+      console.error(`warning: failed to load definitions from ${diskPath}: ${(e as Error).message}`);
+    }
+  }
+  return definitions;
+};
+
+// Compiles every script of one project, the main script first. Returns null after printing diagnostics.
+const compileProject = (projectPath: string, definitions: any[]): ScriptOutput[] | null => {
+  let project: ProjectFile;
+  try {
+    project = projectLoader.migrate(JSON.parse(fs.readFileSync(projectPath, 'utf8')));
+  } catch (e) {
+    console.error(`${projectPath}: error: cannot read project: ${(e as Error).message}`);
+    return null;
+  }
+
+  const { graph, unresolved } = projectLoader.rehydrate(project, definitions);
+  unresolved.forEach(node => {
+    console.error(`${projectPath}: error: node ${node.nodeId} ("${node.displayName}") has unknown type "${node.type}"`);
+  });
+
+  const outputs = scriptManager.generateAll(graph, definitions);
+  let errorCount = 0;
+  outputs.forEach(output => {
+    const location = outputs.length > 1 ? `${projectPath} (${output.fileName})` : projectPath;
+    output.errors.forEach(error => {
+      console.error(`${location}: error: ${error.message} [${error.nodeIds.join(', ')}]`);
+    });
+    errorCount += output.errors.length;
+  });
+
+  return unresolved.length > 0 || errorCount > 0 ? null : outputs;
+};
+
+// The files of the scripts: the main script goes to `mainTarget` and the others into the same folder.
+const getTargets = (outputs: ScriptOutput[], mainTarget: string): string[] =>
+  [mainTarget, ...outputs.slice(1).map(output => path.join(path.dirname(mainTarget), output.fileName))];
+
+const writeOutputs = (outputs: ScriptOutput[], targets: string[]) => {
+  outputs.forEach((output, i) => fs.writeFileSync(targets[i], `${output.code}\n`));
+};
+
+const build = (input: string, out: string | undefined, definitions: any[]): boolean => {
+  if (!fs.existsSync(input)) {
+    console.error(`error: ${input} does not exist`);
+    return false;
+  }
+
+  if (!fs.statSync(input).isDirectory()) {
+    const outputs = compileProject(input, definitions);
+    if (outputs === null) return false;
+    if (out) {
+      writeOutputs(outputs, getTargets(outputs, out));
+    } else if (outputs.length > 1) {
+      console.error(`error: ${input} has ${outputs.length} scripts; pass -o to write them to files`);
+      return false;
+    } else {
+      process.stdout.write(`${outputs[0].code}\n`);
+    }
+    return true;
+  }
+
+  const projects = fs.readdirSync(input).filter(f => f.toLowerCase().endsWith('.json')).sort();
+  if (projects.length === 0) {
+    console.error(`error: no .json projects found in ${input}`);
+    return false;
+  }
+  if (out) fs.mkdirSync(out, { recursive: true });
+
+  let failed = 0;
+  const builds: { projectPath: string; outputs: ScriptOutput[]; targets: string[] }[] = [];
+  projects.forEach(file => {
+    const projectPath = path.join(input, file);
+    const outputs = compileProject(projectPath, definitions);
+    if (outputs === null) {
+      failed++;
+      return;
+    }
+    builds.push({ projectPath, outputs, targets: getTargets(outputs, path.join(out || input, file.replace(/\.json$/i, '.tpc'))) });
+  });
+
+  // The scripts of all projects share the output folder, so nothing is written when two of them
+  // would go to the same file. File names are compared as the editor does, ignoring case.
+  const writers = new Map<string, string>();
+  let clashes = 0;
+  builds.forEach(({ projectPath, targets }) => targets.forEach(target => {
+    const key = path.resolve(target).toLowerCase();
+    const writer = writers.get(key);
+    if (writer) {
+      console.error(`error: ${projectPath} and ${writer} both write ${target}`);
+      clashes++;
+    } else {
+      writers.set(key, projectPath);
+    }
+  }));
+  if (clashes > 0) return false;
+
+  builds.forEach(({ projectPath, outputs, targets }) => {
+    writeOutputs(outputs, targets);
+    console.error(`${projectPath} -> ${targets.join(', ')}`);
+  });
+
+  if (failed > 0) console.error(`${failed} of ${projects.length} projects failed to build`);
+  return failed === 0;
+};
+
+const main = (argv: string[]): number => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        data: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (e) {
+    console.error(`error: ${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const [command, input] = positionals;
+  if (command !== 'build' || !input || positionals.length > 2) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const definitions = loadDefinitions(values.data || DEFAULT_DATA_DIR);
+  if (definitions.length === 0) {
+    console.error('error: no command definitions could be loaded');
+    return 1;
+  }
+
+  return build(input, values.out, definitions) ? 0 : 1;
+};
+
+process.exitCode = main(process.argv.slice(2));
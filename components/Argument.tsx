@@ -2,13 +2,18 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useCallback } from 'react';
+import React, { useCallback, useContext } from 'react';
 import { Plus, Minus } from 'lucide-react';
-import { NodeInstance, SocketDef, Connection } from '@/types';
+import { NodeInstance, SocketDef, Connection, RegistryKind } from '@/types';
 import { getIdentifier } from '@/engine/nodeFactory';
 import { argumentWalker, WalkerHandlers } from '@/engine/argumentWalker';
 import { SocketHandle } from '@/components/SocketHandle';
 import { ManagedInput } from './ManagedInput';
+import { RegistryPicker } from './RegistryPicker';
+import { EntitySelect } from './EntitySelect';
+import { ScriptSelect } from './ScriptSelect';
+import { gameDatabase } from '@/engine/gameDatabase';
+import { GameDatabaseContext } from '@/contexts/GameDatabaseContext';
 
 interface ArgumentRendererProps {
     node: NodeInstance;
@@ -19,8 +24,17 @@ interface ArgumentRendererProps {
     onRepeatableChange: (nodeId: string, listKey: string, action: 'add' | 'remove') => void;
 }
 
+// Variable and Switch fields take a reference like `v[12]`; fields marked with `registry` take the bare ID.
+const getRegistryField = (arg: any): { kind: RegistryKind; bare: boolean } | null => {
+    if (arg.registry) return { kind: arg.registry, bare: true };
+    if (arg.type === 'Variable') return { kind: 'variable', bare: false };
+    if (arg.type === 'Switch') return { kind: 'switch', bare: false };
+    return null;
+};
+
 export function ArgumentRenderer(props: ArgumentRendererProps) {
     const { node, sockets, connections, allNodes, onValueChange, onRepeatableChange } = props;
+    const database = useContext(GameDatabaseContext);
 
     // Memoize handlers to prevent re-creation on every render
     const handlers = useCallback((): WalkerHandlers<React.ReactNode> => ({
@@ -82,6 +96,7 @@ export function ArgumentRenderer(props: ArgumentRendererProps) {
             const inputSocketDef = sockets.inputs.find(s => s.id === socketId);
             const outputSocketDef = sockets.outputs.find(s => s.id === socketId);
             const isConnected = !!connection;
+            const connectedEntityName = connection && arg.entity ? gameDatabase.getName(database, arg.entity, connection.resolvedValue) : undefined;
 
             const renderManagedInput = () => {
                 const placeholder = arg.label || arg.name || arg.type;
@@ -107,13 +122,46 @@ export function ArgumentRenderer(props: ArgumentRendererProps) {
                     default: return null;
                 }
 
-                return <ManagedInput
+                const input = <ManagedInput
                     initialValue={node.values[key] ?? ''}
                     onCommit={(value) => onValueChange(node.id, key, value)}
                     type={inputType}
                     placeholder={placeholder}
                     inputProps={{ 'data-prefix': !!arg.prefix }}
-                />
+                />;
+
+                // Numeric fields marked with `entity` also offer the imported names of that kind.
+                if (arg.entity) {
+                    return (
+                        <div className="entity-field">
+                            {input}
+                            <EntitySelect kind={arg.entity} value={node.values[key]} onSelect={(id) => onValueChange(node.id, key, String(id))} />
+                        </div>
+                    );
+                }
+
+                // Fields marked with `script_file` also offer the project's other scripts.
+                if (arg.script_file) {
+                    return (
+                        <div className="script-field">
+                            {input}
+                            <ScriptSelect value={node.values[key]} onSelect={(fileName) => onValueChange(node.id, key, fileName)} />
+                        </div>
+                    );
+                }
+
+                const registryField = getRegistryField(arg);
+                if (!registryField) return input;
+                return (
+                    <RegistryPicker
+                        kind={registryField.kind}
+                        bare={registryField.bare}
+                        value={String(node.values[key] ?? '')}
+                        onSelect={(value) => onValueChange(node.id, key, value)}
+                    >
+                        {input}
+                    </RegistryPicker>
+                );
             };
 
             return (
@@ -127,7 +175,10 @@ export function ArgumentRenderer(props: ArgumentRendererProps) {
                             </span>
                         )}
                         {isConnected ? (
-                             <input type="text" value={connection.resolvedValue ?? ''} disabled className="input-base" title={`Connected from ${connection.fromNode}`} />
+                            <>
+                                <input type="text" value={connection.resolvedValue ?? ''} disabled className="input-base" title={`Connected from ${connection.fromNode}`} />
+                                {connectedEntityName && <span className="entity-name">{connectedEntityName}</span>}
+                            </>
                         ) : (
                             renderManagedInput()
                         )}
@@ -253,7 +304,7 @@ export function ArgumentRenderer(props: ArgumentRendererProps) {
                 )}
             </div>
         ),
-    }), [node, sockets, connections, allNodes, onValueChange, onRepeatableChange]);
+    }), [node, sockets, connections, allNodes, database, onValueChange, onRepeatableChange]);
 
     const renderedArgs = argumentWalker(node, handlers());
 
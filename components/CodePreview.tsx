@@ -2,11 +2,60 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect } from 'react';
-import { Copy, Check } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Copy, Check, WrapText, ChevronDown, ChevronRight, Pencil } from 'lucide-react';
+import { tpcTokenizer, TpcKeywords, Token, TokenPosition } from '@/engine/tpcTokenizer';
+import { SourceMapEntry } from '@/engine/codeGenerator';
+import { CodeEditError } from '@/engine/codeSync';
 
-export const CodePreview = ({ code }: { code: string }) => {
+interface CodePreviewProps {
+  code: string;
+  // The words to highlight, collected from the loaded definitions.
+  keywords: TpcKeywords;
+  // Which node each range of lines came from.
+  sourceMap: SourceMapEntry[];
+  // The lines of these nodes are highlighted.
+  selectedNodeIds: string[];
+  onShowNode: (nodeId: string) => void;
+  // Parses edited code back into the graph, returning why it couldn't when it didn't.
+  onApplyEdit: (editedCode: string, keepUnparsed: boolean) => CodeEditError[];
+}
+
+// The code being edited, and the generated code it started from.
+interface CodeEdit {
+  baseCode: string;
+  text: string;
+  errors: CodeEditError[];
+}
+
+export const CodePreview = ({ code, keywords, sourceMap, selectedNodeIds, onShowNode, onApplyEdit }: CodePreviewProps) => {
   const [isCopied, setIsCopied] = useState(false);
+  const [wrapLines, setWrapLines] = useState(false);
+  // The lines whose `{ }` block is folded, by the line of the opening brace.
+  const [foldedLines, setFoldedLines] = useState<Set<number>>(() => new Set());
+  const [hoveredBracket, setHoveredBracket] = useState<TokenPosition | null>(null);
+
+  const lines = useMemo(() => tpcTokenizer.tokenize(code, keywords), [code, keywords]);
+  const brackets = useMemo(() => tpcTokenizer.matchBrackets(lines), [lines]);
+  const foldRanges = useMemo(() => tpcTokenizer.getFoldRanges(lines, brackets), [lines, brackets]);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [edit, setEdit] = useState<CodeEdit | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  // The source map entry of each line.
+  const lineSources = useMemo(() => {
+    const sources: (SourceMapEntry | undefined)[] = [];
+    sourceMap.forEach(entry => {
+      for (let line = entry.startLine; line <= entry.endLine; line++) sources[line] = entry;
+    });
+    return sources;
+  }, [sourceMap]);
+  const selectedIds = useMemo(() => new Set(selectedNodeIds), [selectedNodeIds]);
+
+  // Bring the lines of a newly selected node into view.
+  useEffect(() => {
+    wrapperRef.current?.querySelector('.code-line-selected')?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIds]);
 
   const handleCopy = () => {
     if (!code) return;
@@ -24,30 +73,192 @@ export const CodePreview = ({ code }: { code: string }) => {
   // Reset copy button text if code changes
   useEffect(() => {
     setIsCopied(false);
+    setHoveredBracket(null);
   }, [code]);
 
-  const codeLines = code.split('\n');
+  const toggleFold = (line: number) => {
+    setFoldedLines(folded => {
+      const next = new Set(folded);
+      if (!next.delete(line)) next.add(line);
+      return next;
+    });
+  };
+
+  const startEdit = () => setEdit({ baseCode: code, text: code, errors: [] });
+
+  const applyEdit = (keepUnparsed: boolean) => {
+    if (!edit) return;
+    const errors = onApplyEdit(edit.text, keepUnparsed);
+    setEdit(errors.length > 0 ? { ...edit, errors } : null);
+  };
+
+  // Selects a line of the editor, to take the user to an error.
+  const selectEditorLine = (line: number) => {
+    const editor = editorRef.current;
+    if (!editor || !edit) return;
+    const lines = edit.text.split('\n');
+    const start = lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0);
+    editor.focus();
+    editor.setSelectionRange(start, start + (lines[line]?.length ?? 0));
+  };
+
+  const matchingBracket = hoveredBracket ? brackets.pairs.get(hoveredBracket) : undefined;
+
+  const renderToken = (token: Token, line: number, index: number) => {
+    if (token.kind === 'text') return token.text;
+    if (token.kind !== 'bracket') return <span key={index} className={`tpc-${token.kind}`}>{token.text}</span>;
+
+    const position: TokenPosition = `${line}:${index}`;
+    const classes = ['tpc-bracket'];
+    if (brackets.unmatched.has(position)) classes.push('tpc-bracket-unmatched');
+    else if (position === hoveredBracket || position === matchingBracket) classes.push('tpc-bracket-match');
+    return (
+      <span
+        key={index}
+        className={classes.join(' ')}
+        onMouseEnter={() => setHoveredBracket(position)}
+        onMouseLeave={() => setHoveredBracket(null)}
+      >
+        {token.text}
+      </span>
+    );
+  };
+
+  // Folded blocks keep their first and last line; the lines between are left out.
+  const rows: React.ReactNode[] = [];
+  for (let line = 0; line < lines.length; line++) {
+    const range = foldRanges.get(line);
+    const isFolded = !!range && foldedLines.has(line);
+    const source = lineSources[line];
+    const classes = ['code-line'];
+    if (source) classes.push('code-line-mapped');
+    if (source && selectedIds.has(source.nodeId)) classes.push('code-line-selected');
+    rows.push(
+      <span
+        key={line}
+        className={classes.join(' ')}
+        onClick={source ? () => onShowNode(source.nodeId) : undefined}
+        title={source ? 'Show the node of this line' : undefined}
+      >
+        <span className="code-line-number">{line + 1}</span>
+        <span className="code-line-fold">
+          {range && (
+            <button onClick={(e) => { e.stopPropagation(); toggleFold(line); }} aria-label={isFolded ? `Unfold line ${line + 1}` : `Fold line ${line + 1}`} aria-expanded={!isFolded}>
+              {isFolded ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+            </button>
+          )}
+        </span>
+        <span className="code-line-text">
+          {lines[line].map((token, index) => renderToken(token, line, index))}
+          {isFolded && (
+            <button className="code-fold-placeholder" onClick={(e) => { e.stopPropagation(); toggleFold(line); }} title="Unfold">
+              {range.end - range.start - 1} lines
+            </button>
+          )}
+        </span>
+      </span>
+    );
+    if (isFolded) line = range.end - 1;
+  }
+
+  if (edit) {
+    const editLines = edit.text.split('\n');
+    const lineErrors = new Map(edit.errors.map(error => [error.line, error.message]));
+    // The graph was changed while editing, so the source map no longer fits the edit.
+    const isStale = edit.baseCode !== code;
+    const canKeepUnparsed = edit.errors.length > 0 && edit.errors.every(error => error.type === 'unparsed-line');
+    return (
+      <div className="code-preview">
+        <div className="code-preview-header">
+          <h2>Edit Code</h2>
+        </div>
+        <div className="code-preview-code-wrapper">
+          <div className="code-editor">
+            <div className="code-editor-gutter" aria-hidden="true">
+              {editLines.map((_, line) => (
+                <span key={line} className={`code-line-number ${lineErrors.has(line) ? 'code-line-number-error' : ''}`} title={lineErrors.get(line)}>
+                  {line + 1}
+                </span>
+              ))}
+            </div>
+            <div className="code-editor-body">
+              <div className="code-editor-highlights" aria-hidden="true">
+                {editLines.map((_, line) => <div key={line} className={lineErrors.has(line) ? 'code-editor-line-error' : undefined} />)}
+              </div>
+              <textarea
+                ref={editorRef}
+                className="code-editor-input"
+                value={edit.text}
+                onChange={(e) => setEdit({ ...edit, text: e.target.value })}
+                rows={editLines.length}
+                wrap="off"
+                spellCheck={false}
+                aria-label="Code"
+                autoFocus
+              />
+            </div>
+          </div>
+        </div>
+        {isStale && <p className="code-editor-notice">The graph changed while you were editing. Cancel and edit the new code.</p>}
+        {edit.errors.length > 0 && (
+          <ul className="code-editor-errors">
+            {edit.errors.map((error, index) => (
+              <li key={index}>
+                <button onClick={() => selectEditorLine(error.line)}>Line {error.line + 1}: {error.message}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="code-editor-actions">
+          <button className="button" onClick={() => setEdit(null)}>Cancel</button>
+          {canKeepUnparsed && (
+            <button className="button" onClick={() => applyEdit(true)} disabled={isStale} title="Keep the lines that match no command as raw code nodes">
+              Keep as Raw Code
+            </button>
+          )}
+          <button className="button button-primary" onClick={() => applyEdit(false)} disabled={isStale}>Apply</button>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="code-preview">
       <div className="code-preview-header">
         <h2>Generated Code</h2>
-        <button
-          onClick={handleCopy}
-          className="icon-button"
-          disabled={!code}
-          aria-label={isCopied ? 'Copied' : 'Copy code'}
-          title={isCopied ? 'Copied' : 'Copy code'}
-        >
-          {isCopied ? <Check size={16} /> : <Copy size={16} />}
-        </button>
+        <div className="code-preview-actions">
+          <button
+            onClick={startEdit}
+            className="icon-button"
+            aria-label="Edit code"
+            title="Edit code"
+          >
+            <Pencil size={16} />
+          </button>
+          <button
+            onClick={() => setWrapLines(w => !w)}
+            className={`icon-button ${wrapLines ? 'active' : ''}`}
+            aria-pressed={wrapLines}
+            aria-label="Wrap long lines"
+            title="Wrap long lines"
+          >
+            <WrapText size={16} />
+          </button>
+          <button
+            onClick={handleCopy}
+            className="icon-button"
+            disabled={!code}
+            aria-label={isCopied ? 'Copied' : 'Copy code'}
+            title={isCopied ? 'Copied' : 'Copy code'}
+          >
+            {isCopied ? <Check size={16} /> : <Copy size={16} />}
+          </button>
+        </div>
       </div>
-      <div className="code-preview-code-wrapper">
+      <div className="code-preview-code-wrapper" ref={wrapperRef}>
         {code ? (
-          <pre className="code-preview-code">
-            {codeLines.map((line, index) => (
-              <span key={index}>{line}</span>
-            ))}
+          <pre className={`code-preview-code ${wrapLines ? 'code-preview-code-wrap' : ''}`}>
+            {rows}
           </pre>
         ) : (
           <div className="code-preview-placeholder">
@@ -57,4 +268,4 @@ export const CodePreview = ({ code }: { code: string }) => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Position } from '@/types';
+import { nodeSearch } from '@/engine/nodeSearch';
+
+interface CommandPaletteProps {
+  definitions: any[];
+  // Where the palette opens, in screen coordinates.
+  position: Position;
+  // Shown above the search field, e.g. which socket the new node will be connected to.
+  hint?: string;
+  onSelect: (def: any) => void;
+  onClose: () => void;
+}
+
+const PALETTE_WIDTH = 360;
+const PALETTE_HEIGHT = 380;
+
+export const CommandPalette = ({ definitions, position, hint, onSelect, onClose }: CommandPaletteProps) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const results = useMemo(() => nodeSearch.search(definitions, query), [definitions, query]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) onSelect(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  // Keep the palette inside the window.
+  const left = Math.max(8, Math.min(position.x, window.innerWidth - PALETTE_WIDTH - 8));
+  const top = Math.max(8, Math.min(position.y, window.innerHeight - PALETTE_HEIGHT - 8));
+
+  return (
+    <div className="command-palette-overlay" onMouseDown={onClose}>
+      <div
+        className="command-palette"
+        style={{ left, top, width: PALETTE_WIDTH, maxHeight: PALETTE_HEIGHT }}
+        onMouseDown={e => e.stopPropagation()}
+        role="dialog"
+        aria-label="Add node"
+      >
+        {hint && <div className="command-palette-hint">{hint}</div>}
+        <input
+          className="command-palette-search"
+          placeholder="Search nodes..."
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          autoFocus
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={results[activeIndex] ? `command-palette-item-${activeIndex}` : undefined}
+        />
+        <ul className="command-palette-list" id="command-palette-results" role="listbox" ref={listRef}>
+          {results.map((def, index) => (
+            <li
+              key={def.type}
+              id={`command-palette-item-${index}`}
+              className={`command-palette-item ${index === activeIndex ? 'active' : ''}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onSelect(def)}
+            >
+              <span className="command-palette-item-name">{def.displayName}</span>
+              {def.signature && <span className="command-palette-item-sig">{def.signature}</span>}
+            </li>
+          ))}
+          {results.length === 0 && <li className="command-palette-empty">No matching nodes</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
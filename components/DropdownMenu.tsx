@@ -3,6 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { ChevronRight } from 'lucide-react';
 
 interface DropdownMenuProps {
   trigger: React.ReactNode;
@@ -65,4 +66,24 @@ export const DropdownMenu: React.FC<DropdownMenuProps> = ({ trigger, children, a
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+interface DropdownSubmenuProps {
+  label: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// A nested menu inside a DropdownMenu. It opens to the side on hover or keyboard focus.
+export const DropdownSubmenu: React.FC<DropdownSubmenuProps> = ({ label, children }) => {
+  return (
+    <div className="dropdown-submenu">
+      <button className="dropdown-submenu-trigger" aria-haspopup="true">
+        <span>{label}</span>
+        <ChevronRight size={14} aria-hidden="true" />
+      </button>
+      <div className="dropdown-content dropdown-submenu-content" role="menu">
+        {children}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useContext, useMemo } from 'react';
+import { gameDatabase, EntityKind, ENTITY_KINDS } from '@/engine/gameDatabase';
+import { GameDatabaseContext } from '@/contexts/GameDatabaseContext';
+
+interface EntitySelectProps {
+  kind: EntityKind;
+  value: any;
+  onSelect: (id: number) => void;
+}
+
+// A dropdown of the imported names of one kind of entry. Nothing is shown until names are imported.
+export const EntitySelect = ({ kind, value, onSelect }: EntitySelectProps) => {
+  const database = useContext(GameDatabaseContext);
+  const entries = useMemo(() => gameDatabase.getEntries(database, kind), [database, kind]);
+  if (entries.length === 0) return null;
+
+  const text = String(value ?? '').trim();
+  const isListed = entries.some(e => String(e.id) === text);
+  return (
+    <select
+      className="input-base entity-select"
+      value={isListed ? text : ''}
+      onChange={e => onSelect(Number(e.target.value))}
+      aria-label={ENTITY_KINDS[kind].label}
+    >
+      {!isListed && <option value="">{text ? `${text}: not in the database` : `Choose from ${ENTITY_KINDS[kind].label}...`}</option>}
+      {entries.map(entry => (
+        <option key={entry.id} value={entry.id}>{entry.id}: {entry.name}</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { CaseSensitive, WholeWord, Regex, ReplaceAll, X } from 'lucide-react';
+import { NodeInstance } from '@/types';
+import { findReplace, FindMatch, FindOptions, ValueChange } from '@/engine/findReplace';
+
+interface FindPanelProps {
+  nodes: NodeInstance[];
+  onFocusNode: (nodeId: string) => void;
+  onReplaceAll: (changes: ValueChange[], label: string) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS = { displayName: 'Name', type: 'Type' };
+
+// The line of a match's text holding its first occurrence, with the occurrences on it marked.
+const renderSnippet = (match: FindMatch) => {
+  const [firstStart] = match.ranges[0];
+  const lineStart = match.text.lastIndexOf('\n', firstStart - 1) + 1;
+  const newline = match.text.indexOf('\n', firstStart);
+  const lineEnd = newline === -1 ? match.text.length : newline;
+  const parts: React.ReactNode[] = [];
+  let position = lineStart;
+  match.ranges.filter(([start, end]) => start >= lineStart && end <= lineEnd).forEach(([start, end], index) => {
+    parts.push(match.text.slice(position, start), <mark key={index}>{match.text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(match.text.slice(position, lineEnd));
+  return parts;
+};
+
+// Finds text in the values, names and types of the nodes shown in the editor, and replaces it in the values.
+export const FindPanel = ({ nodes, onFocusNode, onReplaceAll, onClose }: FindPanelProps) => {
+  const [options, setOptions] = useState<FindOptions>({ query: '', regex: false, wholeWord: false, matchCase: false, argumentType: null });
+  const [replacement, setReplacement] = useState('');
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const argumentTypes = useMemo(() => findReplace.listArgumentTypes(nodes), [nodes]);
+  const { error } = useMemo(() => findReplace.createPattern(options), [options]);
+  const matches = useMemo(() => findReplace.find(nodes, options), [nodes, options]);
+  const nodeNames = useMemo(() => new Map(nodes.map(n => [n.id, n.displayName])), [nodes]);
+  const valueMatchCount = matches.filter(m => m.field === 'value').length;
+  const matchedNodeCount = new Set(matches.map(m => m.nodeId)).size;
+
+  const updateOptions = (changes: Partial<FindOptions>) => {
+    setOptions(o => ({ ...o, ...changes }));
+    setActiveIndex(-1);
+  };
+
+  const showMatch = (index: number) => {
+    setActiveIndex(index);
+    onFocusNode(matches[index].nodeId);
+  };
+
+  const handleReplaceAll = () => {
+    const changes = findReplace.replaceAll(nodes, matches, options, replacement);
+    if (changes.length === 0) return;
+    onReplaceAll(changes, `Replace "${options.query}" in ${changes.length} value${changes.length === 1 ? '' : 's'}`);
+  };
+
+  const toggles: { option: 'matchCase' | 'wholeWord' | 'regex'; label: string; icon: React.ReactNode }[] = [
+    { option: 'matchCase', label: 'Match case', icon: <CaseSensitive size={16} /> },
+    { option: 'wholeWord', label: 'Match whole word', icon: <WholeWord size={16} /> },
+    { option: 'regex', label: 'Use regular expression', icon: <Regex size={16} /> },
+  ];
+
+  return (
+    <div className="find-panel" role="search" onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}>
+      <div className="find-panel-row">
+        <input
+          className="input-base"
+          placeholder="Find"
+          value={options.query}
+          onChange={(e) => updateOptions({ query: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && matches.length > 0) showMatch((activeIndex + (e.shiftKey ? matches.length - 1 : 1)) % matches.length);
+          }}
+          aria-label="Find"
+          autoFocus
+        />
+        {toggles.map(({ option, label, icon }) => (
+          <button
+            key={option}
+            className={`icon-button ${options[option] ? 'active' : ''}`}
+            onClick={() => updateOptions({ [option]: !options[option] })}
+            aria-pressed={options[option]}
+            aria-label={label}
+            title={label}
+          >
+            {icon}
+          </button>
+        ))}
+        <button className="icon-button" onClick={onClose} aria-label="Close" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="find-panel-row">
+        <input
+          className="input-base"
+          placeholder="Replace"
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          aria-label="Replace"
+        />
+        <button
+          className="icon-button"
+          onClick={handleReplaceAll}
+          disabled={valueMatchCount === 0}
+          aria-label="Replace all"
+          title={`Replace in all ${valueMatchCount} matching value${valueMatchCount === 1 ? '' : 's'}`}
+        >
+          <ReplaceAll size={16} />
+        </button>
+      </div>
+      <select
+        className="input-base"
+        value={options.argumentType ?? ''}
+        onChange={(e) => updateOptions({ argumentType: e.target.value || null })}
+        aria-label="Search in"
+      >
+        <option value="">All values, names and types</option>
+        {argumentTypes.map(type => <option key={type} value={type}>Only {type} values</option>)}
+      </select>
+      {error ? (
+        <p className="find-panel-error">{error}</p>
+      ) : options.query && (
+        <p className="find-panel-summary">
+          {matches.length === 0 ? 'No results' : `${matches.length} result${matches.length === 1 ? '' : 's'} in ${matchedNodeCount} node${matchedNodeCount === 1 ? '' : 's'}`}
+        </p>
+      )}
+      {matches.length > 0 && (
+        <ul className="find-panel-results">
+          {matches.map((match, index) => (
+            <li key={`${match.nodeId}:${match.field}:${match.key}`}>
+              <button className={`find-panel-result ${index === activeIndex ? 'active' : ''}`} onClick={() => showMatch(index)} title="Show in graph">
+                <span className="find-panel-result-node">{nodeNames.get(match.nodeId)}</span>
+                <span className="find-panel-result-field">
+                  {match.field === 'value' ? match.argumentType : FIELD_LABELS[match.field]}
+                </span>
+                <span className="find-panel-result-text">{renderSnippet(match)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { memo, useState } from 'react';
+import { NodeProps, NodeResizer } from '@xyflow/react';
+import { MessageSquare, X } from 'lucide-react';
+import { Frame } from '@/types';
+import { FRAME_COLORS } from '@/config';
+import { Markdown } from '@/components/Markdown';
+
+interface FrameNodeData {
+  frame: Frame;
+  onChange: (frameId: string, changes: Partial<Frame>) => void;
+  onDelete: (frameId: string) => void;
+  // Resizing is handled like a drag, so it only becomes an undo step once it ends.
+  onResizeStart: () => void;
+  onResizeEnd: () => void;
+}
+
+type FrameNodeProps = NodeProps & {
+  data: FrameNodeData;
+};
+
+const MIN_FRAME_SIZE = { width: 160, height: 80 };
+
+const FrameNodeComponent = memo(({ data, selected }: FrameNodeProps) => {
+  const { frame, onChange, onDelete, onResizeStart, onResizeEnd } = data;
+  const [isEditingBody, setIsEditingBody] = useState(false);
+
+  return (
+    <div
+      className={`frame-node ${selected ? 'selected' : ''}`}
+      style={{ borderColor: frame.color, backgroundColor: `color-mix(in srgb, ${frame.color} 12%, transparent)` }}
+    >
+      <NodeResizer
+        isVisible={selected}
+        color={frame.color}
+        minWidth={MIN_FRAME_SIZE.width}
+        minHeight={MIN_FRAME_SIZE.height}
+        onResizeStart={onResizeStart}
+        onResizeEnd={onResizeEnd}
+      />
+      <div className="frame-node-header" style={{ backgroundColor: `color-mix(in srgb, ${frame.color} 35%, transparent)` }}>
+        <input
+          className="frame-node-title nodrag"
+          value={frame.title}
+          onChange={e => onChange(frame.id, { title: e.target.value })}
+          aria-label="Frame title"
+        />
+        {selected && (
+          <div className="frame-node-colors nodrag">
+            {FRAME_COLORS.map(color => (
+              <button
+                key={color}
+                className={`frame-node-color ${color === frame.color ? 'active' : ''}`}
+                style={{ backgroundColor: color }}
+                onClick={() => onChange(frame.id, { color })}
+                aria-label={`Color ${color}`}
+                title={color}
+              />
+            ))}
+          </div>
+        )}
+        <button
+          className={`icon-button frame-node-comment-toggle ${frame.emitComment ? 'active' : ''}`}
+          onClick={() => onChange(frame.id, { emitComment: !frame.emitComment })}
+          aria-pressed={frame.emitComment}
+          aria-label="Generate the title as an @comment line"
+          title={frame.emitComment ? 'The title is generated as an @comment line' : 'Generate the title as an @comment line'}
+        >
+          <MessageSquare size={16} />
+        </button>
+        <button
+          className="icon-button icon-button-danger"
+          onClick={() => onDelete(frame.id)}
+          aria-label="Delete frame"
+          title="Delete frame"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      {isEditingBody ? (
+        <textarea
+          className="frame-node-body-editor nodrag nowheel"
+          value={frame.body}
+          onChange={e => onChange(frame.id, { body: e.target.value })}
+          onBlur={() => setIsEditingBody(false)}
+          placeholder="Markdown notes"
+          autoFocus
+        />
+      ) : (
+        <div className="frame-node-body" onDoubleClick={() => setIsEditingBody(true)} title="Double-click to edit">
+          {frame.body
+            ? <Markdown text={frame.body} className="frame-node-markdown" />
+            : selected && <span className="frame-node-placeholder">Double-click to add notes</span>}
+        </div>
+      )}
+    </div>
+  );
+});
+
+FrameNodeComponent.displayName = 'FrameNode';
+
+export { FrameNodeComponent as FrameNode };
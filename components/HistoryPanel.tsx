@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+import { GraphHistory } from '@/engine/graphHistory';
+
+interface HistoryPanelProps {
+  history: GraphHistory;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export const HistoryPanel = ({ history, onJump, onUndo, onRedo }: HistoryPanelProps) => {
+  const currentItemRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    currentItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [history.index, history.entries.length]);
+
+  return (
+    <div className="history-panel">
+      <div className="history-panel-header">
+        <h2>History</h2>
+        <span className="history-panel-actions">
+          <button className="icon-button" onClick={onUndo} disabled={history.index === 0} title="Undo (Ctrl+Z)" aria-label="Undo">
+            <Undo2 size={16} />
+          </button>
+          <button className="icon-button" onClick={onRedo} disabled={history.index === history.entries.length - 1} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+            <Redo2 size={16} />
+          </button>
+        </span>
+      </div>
+      <ol className="history-panel-list">
+        {history.entries.map((entry, index) => (
+          <li key={`${index}-${entry.timestamp}`}>
+            <button
+              ref={index === history.index ? currentItemRef : undefined}
+              className={`history-panel-item ${index === history.index ? 'current' : ''} ${index > history.index ? 'undone' : ''}`}
+              onClick={() => onJump(index)}
+              aria-current={index === history.index ? 'step' : undefined}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+
+// Matches `code`, **bold**, *italic* / _italic_ and [links](url), in that order of precedence.
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*(.+?)\*|_(.+?)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+const renderInline = (text: string): React.ReactNode[] => {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > lastIndex) parts.push(text.slice(lastIndex, match.index));
+    const [, code, bold, italic, underscored, linkText, url] = match;
+    const key = parts.length;
+    if (code !== undefined) parts.push(<code key={key}>{code}</code>);
+    else if (bold !== undefined) parts.push(<strong key={key}>{renderInline(bold)}</strong>);
+    else if (italic !== undefined || underscored !== undefined) parts.push(<em key={key}>{renderInline(italic ?? underscored)}</em>);
+    else if (/^https?:\/\//.test(url)) parts.push(<a key={key} href={url} target="_blank" rel="noreferrer">{linkText}</a>);
+    else parts.push(linkText);
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return parts;
+};
+
+/**
+ * Renders the small subset of Markdown used in notes: `#` headings, `-`/`*` and numbered
+ * lists, paragraphs, and inline code, emphasis and links. Everything else is shown as text.
+ */
+export const Markdown = ({ text, className }: { text: string; className?: string }) => {
+  const blocks: React.ReactNode[] = [];
+  const lines = text.split(/\r?\n/);
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      const Tag = `h${heading[1].length + 3}` as 'h4' | 'h5' | 'h6';
+      blocks.push(<Tag key={i}>{renderInline(heading[2])}</Tag>);
+      i++;
+    } else if (/^\s*([-*]|\d+\.)\s+/.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && /^\s*([-*]|\d+\.)\s+/.test(lines[i])) {
+        items.push(lines[i].replace(/^\s*([-*]|\d+\.)\s+/, ''));
+        i++;
+      }
+      const List = ordered ? 'ol' : 'ul';
+      blocks.push(<List key={i}>{items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}</List>);
+    } else if (line.trim() === '') {
+      i++;
+    } else {
+      const paragraph: string[] = [];
+      while (i < lines.length && lines[i].trim() !== '' && !/^(#{1,3}\s|\s*([-*]|\d+\.)\s+)/.test(lines[i])) {
+        paragraph.push(lines[i]);
+        i++;
+      }
+      blocks.push(<p key={i}>{renderInline(paragraph.join(' '))}</p>);
+    }
+  }
+
+  return <div className={className}>{blocks}</div>;
+};
@@ -10,11 +10,13 @@ import { DATA_FILES } from '@/config';
 
 interface NodeLibraryProps {
     definitions: any[];
+    customDefinitions: any[];
+    subgraphDefinitions: any[];
     onDragStart: (e: React.DragEvent, type: string) => void;
     onClick: (e: React.MouseEvent, type: string) => void;
 }
 
-export const NodeLibrary = ({ definitions, onDragStart, onClick }: NodeLibraryProps) => {
+export const NodeLibrary = ({ definitions, customDefinitions, subgraphDefinitions, onDragStart, onClick }: NodeLibraryProps) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [collapsedCategories, setCollapsedCategories] = useState<Record<string, boolean>>({
         Directives: true,
@@ -24,16 +26,28 @@ export const NodeLibrary = ({ definitions, onDragStart, onClick }: NodeLibraryPr
         setCollapsedCategories(prev => ({ ...prev, [category]: !prev[category] }));
     };
     
-    const filteredDefs = useMemo(() => {
-        if (!searchTerm) return definitions;
+    // Subgraphs come first, followed by the data file categories and the user's definition files.
+    const categories = useMemo(() => {
         const lowerCaseSearch = searchTerm.toLowerCase();
-        return definitions.filter(d => 
+        const matches = (d: any) => !searchTerm ||
             (d.displayName && d.displayName.toLowerCase().includes(lowerCaseSearch)) ||
             (d.signature && d.signature.toLowerCase().includes(lowerCaseSearch)) ||
             d.type.toLowerCase().includes(lowerCaseSearch) ||
-            (d.nodeDef?.description && d.nodeDef.description.toLowerCase().includes(lowerCaseSearch))
-        );
-    }, [definitions, searchTerm]);
+            (d.nodeDef?.description && d.nodeDef.description.toLowerCase().includes(lowerCaseSearch));
+
+        const filteredDefs = definitions.filter(matches);
+        return [
+            ['Subgraphs', subgraphDefinitions.filter(matches)] as [string, any[]],
+            ...Object.entries(DATA_FILES).map(([category, files]) => [
+                category,
+                filteredDefs.filter(def => {
+                    const defCategoryPath = def.sourceFile.substring(0, def.sourceFile.lastIndexOf('/'));
+                    return files.some(f => f.startsWith(defCategoryPath));
+                }),
+            ] as [string, any[]]),
+            ['Custom', customDefinitions.filter(matches)] as [string, any[]],
+        ];
+    }, [definitions, customDefinitions, subgraphDefinitions, searchTerm]);
 
     return (
         <div className="node-library">
@@ -46,12 +60,7 @@ export const NodeLibrary = ({ definitions, onDragStart, onClick }: NodeLibraryPr
                 className="node-library-search"
             />
             <div className="node-library-list">
-                {Object.entries(DATA_FILES).map(([category, files]) => {
-                    const categoryNodes = filteredDefs.filter(def => {
-                        const defCategoryPath = def.sourceFile.substring(0, def.sourceFile.lastIndexOf('/'));
-                        return files.some(f => f.startsWith(defCategoryPath));
-                    });
-
+                {categories.map(([category, categoryNodes]) => {
                     if (categoryNodes.length === 0) return null;
                     
                     const isCollapsed = !!collapsedCategories[category];
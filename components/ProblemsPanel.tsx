@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Problem } from '@/engine/graphValidator';
+
+interface ProblemsPanelProps {
+  problems: Problem[];
+  onFocusNodes: (nodeIds: string[]) => void;
+}
+
+export const ProblemsPanel = ({ problems, onFocusNodes }: ProblemsPanelProps) => {
+  const errorCount = problems.filter(p => p.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  return (
+    <div className="problems-panel">
+      <div className="problems-panel-header">
+        <h2>Problems</h2>
+        <span className="problems-panel-counts">
+          <span className="problems-panel-count error"><AlertCircle size={14} aria-hidden="true" /> {errorCount}</span>
+          <span className="problems-panel-count warning"><AlertTriangle size={14} aria-hidden="true" /> {warningCount}</span>
+        </span>
+      </div>
+      {problems.length > 0 ? (
+        <ul className="problems-panel-list">
+          {problems.map((problem, index) => (
+            <li key={index}>
+              <button
+                className={`problems-panel-item ${problem.severity}`}
+                onClick={() => onFocusNodes(problem.nodeIds)}
+                disabled={problem.nodeIds.length === 0}
+                title={problem.nodeIds.length > 0 ? 'Show in graph' : undefined}
+              >
+                {problem.severity === 'error'
+                  ? <AlertCircle size={14} aria-label="Error" />
+                  : <AlertTriangle size={14} aria-label="Warning" />}
+                <span>{problem.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="problems-panel-empty">
+          <CheckCircle size={14} aria-hidden="true" /> No problems found
+        </div>
+      )}
+    </div>
+  );
+};
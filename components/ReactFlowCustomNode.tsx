@@ -1,7 +1,10 @@
 import React, { memo, useMemo, useContext, useRef } from 'react';
 import { NodeProps } from '@xyflow/react';
-import { ChevronDown, ChevronRight, Eye, EyeOff, X } from 'lucide-react';
+import { ChevronDown, ChevronRight, Eye, EyeOff, X, AlertCircle, AlertTriangle, SquareArrowOutUpRight } from 'lucide-react';
 import { NodeInstance, SocketDef } from '@/types';
+import { Problem } from '@/engine/graphValidator';
+import { dataFlow } from '@/engine/dataFlow';
+import { EXPRESSION_RESULT_KEY } from '@/engine/expressions';
 import { ArgumentRenderer } from '@/components/Argument';
 import { SocketHandle } from '@/components/SocketHandle';
 import { GraphContext } from '@/contexts/GraphContext';
@@ -14,6 +17,9 @@ interface CustomNodeData {
   onToggleVisibility: (nodeId: string) => void;
   onRepeatableChange: (nodeId: string, key: string, type: 'add' | 'remove', index?: number) => void;
   onDelete: (nodeId: string) => void;
+  onRemap: (nodeId: string) => void;
+  onOpenSubgraph: (subgraphId: string) => void;
+  problems: Problem[];
 }
 
 type CustomNodeProps = NodeProps & {
@@ -21,22 +27,24 @@ type CustomNodeProps = NodeProps & {
 };
 
 const ReactFlowCustomNodeComponent = memo(({ data, id, selected }: CustomNodeProps) => {
-  const { nodeData, onValueChange, onToggleExpansion, onRepeatableChange, onDelete, onToggleVisibility } = data;
+  const { nodeData, onValueChange, onToggleExpansion, onRepeatableChange, onDelete, onToggleVisibility, onRemap, onOpenSubgraph, problems } = data;
+  const hasErrors = problems.some(p => p.severity === 'error');
   const { graph } = useContext(GraphContext)!;
   const leftHandlesRef = useRef<HTMLDivElement>(null);
   const rightHandlesRef = useRef<HTMLDivElement>(null);
 
   const hasComplexArgs = nodeData.definition.nodeDef.arguments?.length > 0 || nodeData.definition.nodeDef.array_parameter;
+  const isUnresolved = !!nodeData.definition.unresolved;
 
   const mainExecInputs = nodeData.sockets.inputs.filter(s => s.type === 'exec' && s.name === 'exec_in');
   const mainExecOutputs = nodeData.sockets.outputs.filter(s => s.type === 'exec' && s.name === 'exec_out');
 
   const collapsedSockets = useMemo(() => {
-    if (nodeData.isExpanded) return [];
+    if (nodeData.isExpanded && hasComplexArgs) return [];
     const socketsByName = new Map<string, { input?: SocketDef; output?: SocketDef }>();
 
     for (const socket of [...nodeData.sockets.inputs, ...nodeData.sockets.outputs]) {
-      if (socket.type !== 'data') continue;
+      if (socket.name === 'exec_in' || socket.name === 'exec_out') continue;
       if (!socketsByName.has(socket.name)) {
         socketsByName.set(socket.name, {});
       }
@@ -48,26 +56,30 @@ const ReactFlowCustomNodeComponent = memo(({ data, id, selected }: CustomNodePro
       }
     }
     return Array.from(socketsByName.entries());
-  }, [nodeData.sockets, nodeData.isExpanded]);
+  }, [nodeData.sockets, nodeData.isExpanded, hasComplexArgs]);
   
+  // Connected inputs show the value that will be generated for them.
   const enrichedConnections = useMemo(() => {
-    return graph.connections.map(conn => {
-      const sourceNode = graph.nodes.find(n => n.id === conn.fromNode);
-      if (!sourceNode) return conn;
-      
-      const socketKey = conn.fromSocket.replace(`${conn.fromNode}-`, '');
-      const value = sourceNode.values[socketKey];
-      
-      return {
-        ...conn,
-        resolvedValue: value || `Connected from ${conn.fromNode}`
-      };
-    });
-  }, [graph.connections, graph.nodes]);
+    const evaluator = dataFlow.forGraph(graph);
+    return graph.connections
+      .filter(conn => conn.toNode === nodeData.id)
+      .map(conn => {
+        const value = evaluator.getValue(nodeData.id, conn.toSocket.replace(`${conn.toNode}-`, ''));
+        return { ...conn, resolvedValue: value === undefined || value === null ? '' : String(value) };
+      });
+  }, [graph, nodeData.id]);
 
+  // Expression nodes preview the text they compose next to their result socket.
+  const resultSocket = nodeData.definition.nodeDef.expression
+    ? nodeData.sockets.outputs.find(s => s.name === EXPRESSION_RESULT_KEY)
+    : undefined;
+  const resultText = useMemo(
+    () => resultSocket ? String(dataFlow.forGraph(graph).getValue(nodeData.id, EXPRESSION_RESULT_KEY) ?? '') : '',
+    [graph, nodeData.id, resultSocket]
+  );
 
   return (
-    <div className={`custom-node ${selected ? 'selected' : ''} ${!nodeData.isVisible ? 'hidden' : ''}`}>
+    <div className={`custom-node ${selected ? 'selected' : ''} ${!nodeData.isVisible ? 'hidden' : ''} ${isUnresolved ? 'unresolved' : ''}`}>
       {/* These containers are the portals for all handles */}
       <div className="handles-container-left" ref={leftHandlesRef} />
       <div className="handles-container-right" ref={rightHandlesRef} />
@@ -114,8 +126,27 @@ const ReactFlowCustomNodeComponent = memo(({ data, id, selected }: CustomNodePro
                 <span className="custom-node-title">
                     {nodeData.displayName}
                 </span>
+                {problems.length > 0 && (
+                    <span
+                        className={`node-problem-badge ${hasErrors ? 'error' : 'warning'}`}
+                        title={problems.map(p => p.message).join('\n')}
+                        aria-label={`${problems.length} problem${problems.length === 1 ? '' : 's'}`}
+                    >
+                        {hasErrors ? <AlertCircle size={16} /> : <AlertTriangle size={16} />}
+                    </span>
+                )}
                 </div>
                 <div className="header-right">
+                    {nodeData.definition.subgraphId && (
+                        <button
+                            onClick={() => onOpenSubgraph(nodeData.definition.subgraphId)}
+                            title="Open subgraph"
+                            className="icon-button"
+                            aria-label="Open subgraph"
+                        >
+                            <SquareArrowOutUpRight size={16} />
+                        </button>
+                    )}
                     <button
                         onClick={() => onToggleVisibility(nodeData.id)}
                         title={nodeData.isVisible ? 'Hide from generated code' : 'Show in generated code'}
@@ -135,6 +166,27 @@ const ReactFlowCustomNodeComponent = memo(({ data, id, selected }: CustomNodePro
                 </div>
             </div>
 
+            {/* Unresolved nodes show their saved values read-only */}
+            {isUnresolved && (
+                <div className="custom-node-body unresolved-node-body" style={{ paddingTop: 12 + collapsedSockets.length * 24 }}>
+                <p className="unresolved-node-warning">
+                    <AlertTriangle size={14} aria-hidden="true" />
+                    Unknown command type "{nodeData.type}". This node is read-only.
+                </p>
+                {Object.keys(nodeData.values).length > 0 && (
+                    <dl className="unresolved-node-values">
+                    {Object.entries(nodeData.values).map(([key, value]) => (
+                        <React.Fragment key={key}>
+                        <dt>{key}</dt>
+                        <dd>{String(value)}</dd>
+                        </React.Fragment>
+                    ))}
+                    </dl>
+                )}
+                <button className="button" onClick={() => onRemap(nodeData.id)}>Re-map to definition...</button>
+                </div>
+            )}
+
             {/* Expanded arguments section */}
             {hasComplexArgs && nodeData.isExpanded && (
                 <div className="custom-node-body">
@@ -146,6 +198,12 @@ const ReactFlowCustomNodeComponent = memo(({ data, id, selected }: CustomNodePro
                     onValueChange={onValueChange}
                     onRepeatableChange={onRepeatableChange}
                 />
+                {resultSocket && (
+                    <div className="expression-node-result">
+                        <code className="expression-node-preview" title={resultText}>{resultText || '(empty)'}</code>
+                        <SocketHandle socket={resultSocket} />
+                    </div>
+                )}
                 </div>
             )}
         </HandlePortalContext.Provider>
@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useCallback, useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef, useMemo } from 'react';
 import {
   ReactFlow,
   Node,
@@ -25,51 +25,112 @@ import {
   ReactFlowProvider,
   useReactFlow,
   EdgeSelectionChange,
+  OnSelectionChangeParams,
+  OnNodeDrag,
+  OnConnectEnd,
+  OnConnectStart,
 } from '@xyflow/react';
 
-import { Graph, NodeInstance, Connection as CustomConnection } from '@/types';
+import { AlertCircle } from 'lucide-react';
+import { Graph, NodeInstance, Frame, Position, SocketDef, Connection as CustomConnection } from '@/types';
 import { ReactFlowCustomNode } from '@/components/ReactFlowCustomNode';
+import { FrameNode } from '@/components/FrameNode';
 import { CustomEdge } from '@/components/CustomEdge';
-import { SOCKET_COLORS } from '@/config';
-import { generateNodeSockets } from '@/engine/nodeFactory';
+import { CommandPalette } from '@/components/CommandPalette';
+import { SOCKET_COLORS, FRAME_COLORS } from '@/config';
+import { generateNodeSockets, getUniqueId, nodeFactory } from '@/engine/nodeFactory';
 import { GraphContext } from '@/contexts/GraphContext';
+import { Problem, getConnectionError } from '@/engine/graphValidator';
+import { GraphUpdate } from '@/engine/graphHistory';
+import { graphLayout, NodeSize } from '@/engine/graphLayout';
+import { frameManager } from '@/engine/frames';
+import { nodeSearch } from '@/engine/nodeSearch';
 
 
 interface ReactFlowGraphEditorProps {
   graph: Graph;
-  setGraph: React.Dispatch<React.SetStateAction<Graph>>;
+  // The definitions offered by the quick-add palette.
+  definitions: any[];
+  setGraph: (update: GraphUpdate, label: string, coalesceKey?: string) => void;
   onValueChange: (nodeId: string, key: string, value: any) => void;
   onToggleExpansion: (nodeId: string) => void;
   onToggleVisibility: (nodeId: string) => void;
   onRepeatableChange: (nodeId: string, listKey: string, action: 'add' | 'remove') => void;
   onDelete: (nodeId: string) => void;
+  onRemap: (nodeId: string) => void;
+  onOpenSubgraph: (subgraphId: string) => void;
+  onSelectionChange: (nodeIds: string[]) => void;
+  problems: Problem[];
 }
 
 const nodeTypes: NodeTypes = {
   customNode: ReactFlowCustomNode,
+  frameNode: FrameNode,
 };
 
+// Frames are drawn behind the nodes, even while selected.
+const FRAME_Z_INDEX = -1000;
+// Space left around the selected nodes when a frame is added around them.
+const FRAME_PADDING = 40;
+const FRAME_HEADER_HEIGHT = 40;
+const DEFAULT_FRAME_SIZE = { width: 400, height: 300 };
+// Where a node added from the palette goes relative to the cursor, so the wire lands near its socket.
+const NEW_NODE_OFFSET_Y = 20;
+const NEW_INPUT_FEEDER_OFFSET_X = 300;
+
+// How long the explanation for a rejected connection stays on screen.
+const CONNECTION_ERROR_TIMEOUT_MS = 4000;
+
+// Finds the socket behind a React Flow handle id (`main_exec_out_out`, `0_String_in`, ...).
+const findHandleSocket = (node: NodeInstance, handleId: string | null | undefined, isOutput: boolean): SocketDef | undefined => {
+  const handleBase = handleId?.replace(isOutput ? /_out$/ : /_in$/, '').replace(/^main_/, '') || '';
+  const sockets = generateNodeSockets(node);
+  return (isOutput ? sockets.outputs : sockets.inputs).find(s => s.id === `${node.id}-${handleBase}`);
+};
+
+// Space opens the palette unless the user is typing.
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !!target.closest('input, textarea, select, [contenteditable="true"]');
+
 const edgeTypes: EdgeTypes = {
   customEdge: CustomEdge,
 };
 
 const ReactFlowComponent = ({
   graph,
+  definitions,
   setGraph,
   onValueChange,
   onToggleExpansion,
   onToggleVisibility,
   onRepeatableChange,
   onDelete,
+  onRemap,
+  onOpenSubgraph,
+  onSelectionChange,
+  problems,
 }: ReactFlowGraphEditorProps) => {
   // Initialize ReactFlow state from our custom graph
-  const [nodes, setNodes, onNodesChange] = useNodesState([]);
-  const [edges, setEdges, onEdgesChangeFromHook] = useEdgesState([]);
-  const { fitView } = useReactFlow();
+  const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
+  const [edges, setEdges, onEdgesChangeFromHook] = useEdgesState<Edge>([]);
+  const { fitView, getNodes, screenToFlowPosition } = useReactFlow();
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const problemsByNode = useMemo(() => {
+    const map = new Map<string, Problem[]>();
+    problems.forEach(problem => {
+      problem.nodeIds.forEach(nodeId => {
+        if (!map.has(nodeId)) map.set(nodeId, []);
+        map.get(nodeId)!.push(problem);
+      });
+    });
+    return map;
+  }, [problems]);
   const prevNodeCountRef = useRef(graph.nodes.length);
   const zIndexCounter = useRef(1);
   const graphRef = useRef(graph);
   graphRef.current = graph;
+  // Set while the React Flow state still holds the nodes from before the last graph update.
+  const graphSyncPendingRef = useRef(false);
 
   // Handle z-index on edge selection
   const onEdgesChange: OnEdgesChange = useCallback(
@@ -112,6 +173,40 @@ const ReactFlowComponent = ({
     setEdges((eds) => eds.filter((e) => e.source !== nodeId && e.target !== nodeId));
   }, [onDelete, setNodes, setEdges]);
 
+  const [isDragging, setIsDragging] = useState(false);
+  const startDragging = useCallback(() => setIsDragging(true), []);
+  const stopDragging = useCallback(() => setIsDragging(false), []);
+
+  const handleFrameChange = useCallback((frameId: string, changes: Partial<Frame>) => {
+    setGraph(g => ({
+      ...g,
+      frames: (g.frames || []).map(f => f.id === frameId ? { ...f, ...changes } : f),
+    }), 'Edit frame', `frame:${frameId}:${Object.keys(changes).join(',')}`);
+  }, [setGraph]);
+
+  const handleDeleteFrame = useCallback((frameId: string) => {
+    setGraph(g => ({ ...g, frames: (g.frames || []).filter(f => f.id !== frameId) }), 'Delete frame');
+  }, [setGraph]);
+
+  const convertToReactFlowFrames = useCallback((frames: Frame[]): Node[] => {
+    return frames.map((frame) => ({
+      id: frame.id,
+      type: 'frameNode',
+      position: frame.position,
+      width: frame.size.width,
+      height: frame.size.height,
+      zIndex: FRAME_Z_INDEX,
+      data: {
+        frame,
+        onChange: handleFrameChange,
+        onDelete: handleDeleteFrame,
+        onResizeStart: startDragging,
+        onResizeEnd: stopDragging,
+      },
+      dragHandle: '.frame-node-header',
+    }));
+  }, [handleFrameChange, handleDeleteFrame, startDragging, stopDragging]);
+
   // Convert our custom graph format to ReactFlow format
   const convertToReactFlowNodes = useCallback((nodes: NodeInstance[]): Node[] => {
     return nodes.map((node) => {
@@ -136,12 +231,15 @@ const ReactFlowComponent = ({
           onToggleVisibility,
           onRepeatableChange,
           onDelete: handleDeleteNode,
+          onRemap,
+          onOpenSubgraph,
+          problems: problemsByNode.get(node.id) || [],
         },
         dragHandle: '.custom-drag-handle',
         draggable: true,
       };
     });
-  }, [onValueChange, onToggleExpansion, onToggleVisibility, onRepeatableChange, handleDeleteNode]);
+  }, [onValueChange, onToggleExpansion, onToggleVisibility, onRepeatableChange, handleDeleteNode, onRemap, onOpenSubgraph, problemsByNode]);
 
   const convertToReactFlowEdges = useCallback((connections: CustomConnection[]): Edge[] => {
     return connections.map((conn) => {
@@ -183,14 +281,18 @@ const ReactFlowComponent = ({
     });
   }, [graph.nodes]);
 
-  const [isDragging, setIsDragging] = useState(false);
-
   // Sync graph changes to ReactFlow state
   useEffect(() => {
-    const reactFlowNodes = convertToReactFlowNodes(graph.nodes);
+    // Frames come first, so they are drawn behind the nodes they enclose.
+    const reactFlowNodes = [...convertToReactFlowFrames(graph.frames || []), ...convertToReactFlowNodes(graph.nodes)];
     const reactFlowEdgesFromGraph = convertToReactFlowEdges(graph.connections);
     
-    setNodes(reactFlowNodes);
+    graphSyncPendingRef.current = true;
+    // Keep the selection across graph updates, so edits don't deselect nodes.
+    setNodes(currentNodes => {
+        const selectedIds = new Set(currentNodes.filter(n => n.selected).map(n => n.id));
+        return reactFlowNodes.map(n => selectedIds.has(n.id) ? { ...n, selected: true } : n);
+    });
     setEdges(currentEdges => {
         return reactFlowEdgesFromGraph.map(newEdge => {
             const currentEdge = currentEdges.find(e => e.id === newEdge.id);
@@ -213,19 +315,34 @@ const ReactFlowComponent = ({
         }, 10);
     }
     prevNodeCountRef.current = graph.nodes.length;
-  }, [graph.nodes, graph.connections, convertToReactFlowNodes, convertToReactFlowEdges, setNodes, setEdges, fitView]);
+  }, [graph.nodes, graph.connections, graph.frames, convertToReactFlowFrames, convertToReactFlowNodes, convertToReactFlowEdges, setNodes, setEdges, fitView]);
 
   // Sync ReactFlow changes back to our custom graph format
   useEffect(() => {
+    // Until the graph update above reaches the React Flow state, its nodes may come from another
+    // graph, like the view shown before, and must not be written into this one.
+    if (graphSyncPendingRef.current) {
+      graphSyncPendingRef.current = false;
+      return;
+    }
     const currentGraph = graphRef.current;
     // isDragging check prevents updates while user is moving a node
     if (isDragging) return;
 
     // Reconstruct the graph state from the React Flow state, which is the source of truth
-    const updatedNodes: NodeInstance[] = nodes.map((rfNode) => ({
-      ...rfNode.data.nodeData,
+    const updatedNodes: NodeInstance[] = nodes.filter(n => n.type === 'customNode').map((rfNode) => ({
+      ...(rfNode.data.nodeData as NodeInstance),
       position: rfNode.position, // Always use the position from the React Flow node
     }));
+    const updatedFrames: Frame[] = nodes.filter(n => n.type === 'frameNode').map((rfNode) => {
+      const frame = rfNode.data.frame as Frame;
+      return {
+        ...frame,
+        position: rfNode.position,
+        size: { width: rfNode.width ?? frame.size.width, height: rfNode.height ?? frame.size.height },
+      };
+    });
+    const currentFrames = currentGraph.frames || [];
     
     const updatedConnections: CustomConnection[] = edges.map((edge) => ({
       id: edge.id,
@@ -257,14 +374,56 @@ const ReactFlowComponent = ({
                conn.toSocket !== originalConn.toSocket;
       });
 
-    if (hasNodeChanges || hasConnectionChanges) {
-      setGraph({
+    const isResized = (frame: Frame, original: Frame) =>
+      Math.abs(frame.size.width - original.size.width) > 0.1 ||
+      Math.abs(frame.size.height - original.size.height) > 0.1;
+    const hasFrameChanges =
+      updatedFrames.length !== currentFrames.length ||
+      updatedFrames.some((frame) => {
+        const originalFrame = currentFrames.find((f) => f.id === frame.id);
+        return !originalFrame ||
+               isResized(frame, originalFrame) ||
+               Math.abs(frame.position.x - originalFrame.position.x) > 0.1 ||
+               Math.abs(frame.position.y - originalFrame.position.y) > 0.1;
+      });
+
+    if (hasNodeChanges || hasConnectionChanges || hasFrameChanges) {
+      let label = 'Move nodes';
+      if (updatedNodes.length !== currentGraph.nodes.length) {
+        label = updatedNodes.length < currentGraph.nodes.length ? 'Delete nodes' : 'Add nodes';
+      } else if (hasConnectionChanges) {
+        label = updatedConnections.length < currentGraph.connections.length ? 'Delete connection' : 'Connect sockets';
+      } else if (updatedFrames.length < currentFrames.length) {
+        label = 'Delete frame';
+      } else if (updatedFrames.some(f => currentFrames.some(o => o.id === f.id && isResized(f, o)))) {
+        label = 'Resize frame';
+      }
+      setGraph(g => ({
+        ...g,
         nodes: updatedNodes,
         connections: updatedConnections,
-      });
+        frames: updatedFrames,
+      }), label);
     }
   }, [nodes, edges, setGraph, isDragging]);
 
+  const [connectingSocket, setConnectingSocket] = useState<SocketDef | null>(null);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const connectionErrorTimerRef = useRef<number | undefined>(undefined);
+
+  const showConnectionError = useCallback((message: string) => {
+    setConnectionError(message);
+    window.clearTimeout(connectionErrorTimerRef.current);
+    connectionErrorTimerRef.current = window.setTimeout(() => setConnectionError(null), CONNECTION_ERROR_TIMEOUT_MS);
+  }, []);
+
+  useEffect(() => () => window.clearTimeout(connectionErrorTimerRef.current), []);
+
+  const onConnectStart: OnConnectStart = useCallback((_, { nodeId, handleId, handleType }) => {
+    const node = graphRef.current.nodes.find(n => n.id === nodeId);
+    setConnectingSocket((node && findHandleSocket(node, handleId, handleType === 'source')) || null);
+  }, []);
+
   // Handle new connections
   const onConnect: OnConnect = useCallback(
     (connection: Connection) => {
@@ -273,49 +432,29 @@ const ReactFlowComponent = ({
       const targetNode = graph.nodes.find((n) => n.id === connection.target);
       
       if (!sourceNode || !targetNode) return;
-
-      // Generate current sockets for both nodes
-      const sourceSockets = generateNodeSockets(sourceNode);
-      const targetSockets = generateNodeSockets(targetNode);
-
-      // Reconstruct full socket IDs for lookup (remove _in/_out suffixes and main_ prefix)
-      const sourceHandleBase = connection.sourceHandle?.replace(/_out$/, '').replace(/^main_/, '') || '';
-      const targetHandleBase = connection.targetHandle?.replace(/_in$/, '').replace(/^main_/, '') || '';
-      const sourceSocketId = `${connection.source}-${sourceHandleBase}`;
-      const targetSocketId = `${connection.target}-${targetHandleBase}`;
-      
-      const sourceSocket = sourceSockets.outputs.find(
-        (s) => s.id === sourceSocketId
-      );
-      const targetSocket = targetSockets.inputs.find(
-        (s) => s.id === targetSocketId
-      );
-
-      if (!sourceSocket || !targetSocket) {
-        console.warn('Socket not found:', { sourceSocketId, targetSocketId });
+      if (sourceNode.definition.unresolved || targetNode.definition.unresolved) {
+        showConnectionError('Unresolved nodes are read-only. Re-map them to a definition first.');
         return;
       }
 
-      // Validate socket types (exec to exec, data to data)
-      if (sourceSocket.type !== targetSocket.type) {
-        console.warn('Cannot connect different socket types');
+      const sourceSocket = findHandleSocket(sourceNode, connection.sourceHandle, true);
+      const targetSocket = findHandleSocket(targetNode, connection.targetHandle, false);
+
+      if (!sourceSocket || !targetSocket) {
+        console.warn('Socket not found:', { sourceHandle: connection.sourceHandle, targetHandle: connection.targetHandle });
         return;
       }
 
-      // For data sockets, check data type compatibility
-      if (
-        sourceSocket.type === 'data' &&
-        sourceSocket.dataType !== targetSocket.dataType &&
-        sourceSocket.dataType !== 'Default' &&
-        targetSocket.dataType !== 'Default'
-      ) {
-        console.warn(`Type mismatch: cannot connect ${sourceSocket.dataType} to ${targetSocket.dataType}`);
+      // Validate socket types (exec to exec, data to data, compatible data types)
+      const error = getConnectionError(sourceSocket, targetSocket);
+      if (error) {
+        showConnectionError(`${error}.`);
         return;
       }
 
       setEdges((eds) => addEdge(connection, eds));
     },
-    [graph.nodes, setEdges]
+    [graph.nodes, setEdges, showConnectionError]
   );
 
   // Handle drag and drop from node library
@@ -345,35 +484,218 @@ const ReactFlowComponent = ({
     []
   );
 
+  // Handle focus requests, e.g. from the Problems panel
+  useEffect(() => {
+    const handleFocusNodes = (event: CustomEvent) => {
+      const { nodeIds } = event.detail as { nodeIds: string[] };
+      if (!nodeIds?.length) return;
+      const focusIds = new Set(nodeIds);
+      setNodes(nds => nds.map(n => ({ ...n, selected: focusIds.has(n.id) })));
+      fitView({ nodes: nodeIds.map(id => ({ id })), padding: 0.6, duration: 300, maxZoom: 1.2 });
+    };
+
+    window.addEventListener('reactflow-focus-nodes', handleFocusNodes as EventListener);
+    return () => window.removeEventListener('reactflow-focus-nodes', handleFocusNodes as EventListener);
+  }, [setNodes, fitView]);
+
+  // Handle arrange requests from the Graph menu, laying nodes out with their rendered sizes
+  useEffect(() => {
+    const handleArrangeNodes = (event: CustomEvent) => {
+      const { nodeIds } = event.detail as { nodeIds?: string[] };
+      const sizes = new Map<string, NodeSize>();
+      getNodes().forEach(n => {
+        if (n.measured?.width && n.measured?.height) {
+          sizes.set(n.id, { width: n.measured.width, height: n.measured.height });
+        }
+      });
+      setGraph(g => graphLayout.arrange(g, sizes, nodeIds), nodeIds ? 'Arrange selection' : 'Arrange nodes');
+      requestAnimationFrame(() => fitView({ nodes: nodeIds?.map(id => ({ id })), padding: 0.3, duration: 300 }));
+    };
+
+    window.addEventListener('reactflow-arrange-nodes', handleArrangeNodes as EventListener);
+    return () => window.removeEventListener('reactflow-arrange-nodes', handleArrangeNodes as EventListener);
+  }, [getNodes, setGraph, fitView]);
+
+  // Handle requests to add a frame, around the given nodes or in the middle of the view
+  useEffect(() => {
+    const handleAddFrame = (event: CustomEvent) => {
+      const { nodeIds } = event.detail as { nodeIds: string[] };
+      const enclosed = getNodes().filter(n => n.type === 'customNode' && nodeIds.includes(n.id));
+      let position: Position;
+      let size = DEFAULT_FRAME_SIZE;
+
+      if (enclosed.length > 0) {
+        const left = Math.min(...enclosed.map(n => n.position.x));
+        const top = Math.min(...enclosed.map(n => n.position.y));
+        const right = Math.max(...enclosed.map(n => n.position.x + (n.measured?.width ?? 0)));
+        const bottom = Math.max(...enclosed.map(n => n.position.y + (n.measured?.height ?? 0)));
+        position = { x: left - FRAME_PADDING, y: top - FRAME_PADDING - FRAME_HEADER_HEIGHT };
+        size = {
+          width: right - left + FRAME_PADDING * 2,
+          height: bottom - top + FRAME_PADDING * 2 + FRAME_HEADER_HEIGHT,
+        };
+      } else {
+        const bounds = wrapperRef.current!.getBoundingClientRect();
+        const center = screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 });
+        position = { x: center.x - size.width / 2, y: center.y - size.height / 2 };
+      }
+
+      setGraph(g => {
+        const frames = g.frames || [];
+        const color = FRAME_COLORS[frames.length % FRAME_COLORS.length];
+        return { ...g, frames: [...frames, frameManager.create(position, size, color)] };
+      }, 'Add frame');
+    };
+
+    window.addEventListener('reactflow-add-frame', handleAddFrame as EventListener);
+    return () => window.removeEventListener('reactflow-add-frame', handleAddFrame as EventListener);
+  }, [getNodes, setGraph, screenToFlowPosition]);
+
   const onDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
     event.dataTransfer.dropEffect = 'move';
   }, []);
 
+  // The open quick-add palette. `socket` is the socket a wire was dropped from; the new node is connected to it.
+  const [palette, setPalette] = useState<{ screen: Position; socket?: SocketDef } | null>(null);
+  // The cursor position over the canvas, where Space opens the palette.
+  const pointerRef = useRef<Position | null>(null);
+
+  // Only nodes with a socket that fits the dropped wire are offered.
+  const newNodeSockets = useMemo(() => nodeSearch.getNewNodeSockets(definitions), [definitions]);
+  const paletteDefinitions = useMemo(() => {
+    const socket = palette?.socket;
+    if (!socket) return definitions;
+    return definitions.filter(def => !!nodeSearch.findCompatibleSocket(newNodeSockets.get(def)!, socket));
+  }, [definitions, newNodeSockets, palette]);
+
+  const handlePaletteSelect = useCallback((def: any) => {
+    if (!palette) return;
+    const { screen, socket } = palette;
+    const point = screenToFlowPosition(screen);
+    // Nodes feeding an input go to the left of the cursor, everything else to the right.
+    const position = socket?.io === 'input'
+      ? { x: point.x - NEW_INPUT_FEEDER_OFFSET_X, y: point.y - NEW_NODE_OFFSET_Y }
+      : { x: point.x, y: point.y - NEW_NODE_OFFSET_Y };
+    const newNode = nodeFactory.createNodeInstance(def, position, def.displayName);
+    const newSocket = socket && nodeSearch.findCompatibleSocket(newNode.sockets, socket);
+    const connection: CustomConnection | null = socket && newSocket ? {
+      id: getUniqueId('edge'),
+      fromNode: socket.io === 'output' ? socket.nodeId : newNode.id,
+      fromSocket: socket.io === 'output' ? socket.id : newSocket.id,
+      toNode: socket.io === 'output' ? newNode.id : socket.nodeId,
+      toSocket: socket.io === 'output' ? newSocket.id : socket.id,
+    } : null;
+
+    setGraph(g => ({
+      ...g,
+      nodes: [...g.nodes, newNode],
+      connections: connection ? [...g.connections, connection] : g.connections,
+    }), `Add "${def.displayName}"`);
+    setPalette(null);
+  }, [palette, screenToFlowPosition, setGraph]);
+
+  // Dropping a wire on empty canvas opens the palette to add a node at the other end.
+  const onConnectEnd: OnConnectEnd = useCallback((event, connectionState) => {
+    setConnectingSocket(null);
+    const { isValid, toNode, toHandle, fromHandle } = connectionState;
+    if (isValid || !fromHandle) return;
+    if (toHandle) {
+      // React Flow rejects these itself, before onConnect.
+      showConnectionError(toHandle.type === fromHandle.type
+        ? `Cannot connect two ${fromHandle.type === 'source' ? 'outputs' : 'inputs'}. Wires run from an output to an input.`
+        : 'These sockets cannot be connected.');
+      return;
+    }
+    if (toNode || !(event.target instanceof Element) || !event.target.classList.contains('react-flow__pane')) return;
+
+    const fromNode = graphRef.current.nodes.find(n => n.id === fromHandle.nodeId);
+    if (!fromNode || fromNode.definition.unresolved) return;
+    const socket = findHandleSocket(fromNode, fromHandle.id, fromHandle.type === 'source');
+    if (!socket) return;
+
+    const { clientX, clientY } = 'changedTouches' in event ? event.changedTouches[0] : event;
+    setPalette({ screen: { x: clientX, y: clientY }, socket });
+  }, [showConnectionError]);
+
+  const handleDoubleClick = useCallback((event: React.MouseEvent) => {
+    if (!(event.target instanceof Element) || !event.target.classList.contains('react-flow__pane')) return;
+    setPalette({ screen: { x: event.clientX, y: event.clientY } });
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || event.repeat || !pointerRef.current || isEditableTarget(event.target)) return;
+      event.preventDefault();
+      setPalette(current => current || { screen: pointerRef.current! });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // The nodes and frames enclosed by the frames being dragged, with their positions when the drag started.
+  const frameDragRef = useRef<{ frameId: string; frameStart: Position; members: { id: string; start: Position }[] }[]>([]);
+
   // Handle node drag events to prevent state sync during dragging
-  const onNodeDragStart = useCallback(() => {
+  const onNodeDragStart: OnNodeDrag = useCallback((_, __, draggedNodes) => {
     setIsDragging(true);
-  }, []);
+    const draggedIds = new Set(draggedNodes.map(n => n.id));
+    const others = getNodes().filter(n => !draggedIds.has(n.id));
+    frameDragRef.current = draggedNodes
+      .filter(n => n.type === 'frameNode')
+      .map(n => ({
+        frameId: n.id,
+        frameStart: n.position,
+        members: frameManager.getMembers(n.data.frame as Frame, others).map(m => ({ id: m.id, start: m.position })),
+      }));
+  }, [getNodes]);
+
+  // Members move along with their frame.
+  const onNodeDrag: OnNodeDrag = useCallback((_, __, draggedNodes) => {
+    const moves = new Map<string, Position>();
+    frameDragRef.current.forEach(({ frameId, frameStart, members }) => {
+      const frameNode = draggedNodes.find(n => n.id === frameId);
+      if (!frameNode) return;
+      const dx = frameNode.position.x - frameStart.x;
+      const dy = frameNode.position.y - frameStart.y;
+      members.forEach(m => moves.set(m.id, { x: m.start.x + dx, y: m.start.y + dy }));
+    });
+    if (moves.size === 0) return;
+    setNodes(nds => nds.map(n => moves.has(n.id) ? { ...n, position: moves.get(n.id)! } : n));
+  }, [setNodes]);
 
   const onNodeDragStop = useCallback(() => {
+    frameDragRef.current = [];
     setIsDragging(false);
   }, []);
 
+  const handleSelectionChange = useCallback(({ nodes }: OnSelectionChangeParams) => {
+    onSelectionChange(nodes.filter(n => n.type === 'customNode').map(n => n.id));
+  }, [onSelectionChange]);
+
   return (
     <div 
+      ref={wrapperRef}
       className="graph-editor-wrapper"
       onDrop={onDrop} 
       onDragOver={onDragOver}
+      onDoubleClick={handleDoubleClick}
+      onMouseMove={e => { pointerRef.current = { x: e.clientX, y: e.clientY }; }}
+      onMouseLeave={() => { pointerRef.current = null; }}
     >
-      <GraphContext.Provider value={{ graph }}>
+      <GraphContext.Provider value={{ graph, connectingSocket }}>
         <ReactFlow
           nodes={nodes}
           edges={edges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onConnect={onConnect}
+          onConnectStart={onConnectStart}
+          onConnectEnd={onConnectEnd}
           onNodeDragStart={onNodeDragStart}
+          onNodeDrag={onNodeDrag}
           onNodeDragStop={onNodeDragStop}
+          onSelectionChange={handleSelectionChange}
           nodeTypes={nodeTypes}
           edgeTypes={edgeTypes}
           connectionMode={ConnectionMode.Strict}
@@ -382,6 +704,8 @@ const ReactFlowComponent = ({
           elementsSelectable={true}
           minZoom={0.1}
           maxZoom={2}
+          zoomOnDoubleClick={false}
+          panActivationKeyCode={null}
           style={{ background: 'transparent' }}
           defaultEdgeOptions={{
             type: 'customEdge',
@@ -402,17 +726,35 @@ const ReactFlowComponent = ({
             nodeStrokeWidth={3}
             nodeColor={(node) => {
               if (node.type === 'customNode') return '#4a90e2';
+              if (node.type === 'frameNode') return (node.data.frame as Frame).color;
               return '#2c3035';
             }}
             maskColor="rgba(26, 29, 33, 0.8)"
           />
           <Panel position="top-left">
             <div className="info-panel">
-              Nodes: {nodes.length} | Connections: {edges.length}
+              Nodes: {graph.nodes.length} | Connections: {edges.length}
             </div>
           </Panel>
+          {connectionError && (
+            <Panel position="bottom-center">
+              <div className="connection-error" role="alert">
+                <AlertCircle size={16} aria-hidden="true" />
+                {connectionError}
+              </div>
+            </Panel>
+          )}
         </ReactFlow>
       </GraphContext.Provider>
+      {palette && (
+        <CommandPalette
+          definitions={paletteDefinitions}
+          position={palette.screen}
+          hint={palette.socket && `Connect to ${palette.socket.label || palette.socket.name}`}
+          onSelect={handlePaletteSelect}
+          onClose={() => setPalette(null)}
+        />
+      )}
     </div>
   );
 };
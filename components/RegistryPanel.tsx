@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Registry, RegistryEntry, RegistryKind } from '@/types';
+import { registryManager, REGISTRY_KINDS } from '@/engine/registry';
+import { ManagedInput } from './ManagedInput';
+
+type RegistryUpdate = (registry: Registry) => Registry;
+
+interface RegistryPanelProps {
+  registry: Registry;
+  onChange: (update: RegistryUpdate, label: string, coalesceKey?: string) => void;
+}
+
+interface RegistryRowProps {
+  kind: RegistryKind;
+  entry: RegistryEntry;
+  isIdTaken: (id: number) => boolean;
+  onChange: RegistryPanelProps['onChange'];
+}
+
+const RegistryRow = ({ kind, entry, isIdTaken, onChange }: RegistryRowProps) => {
+  // The ID is edited as a draft and only committed when it is a free, positive whole number.
+  const [idDraft, setIdDraft] = useState(String(entry.id));
+  useEffect(() => setIdDraft(String(entry.id)), [entry.id]);
+
+  const commitId = () => {
+    const id = Number(idDraft);
+    if (!Number.isInteger(id) || id < 1 || id === entry.id || isIdTaken(id)) {
+      setIdDraft(String(entry.id));
+      return;
+    }
+    onChange(r => registryManager.setEntry(r, kind, { ...entry, id }, entry.id), `Change ${REGISTRY_KINDS[kind].prefix}[${entry.id}] to ${REGISTRY_KINDS[kind].prefix}[${id}]`);
+  };
+
+  const updateField = (field: 'name' | 'note', value: string) => {
+    onChange(
+      r => {
+        const current = registryManager.getEntry(r, kind, entry.id);
+        return current ? registryManager.setEntry(r, kind, { ...current, [field]: value }) : r;
+      },
+      field === 'name' ? `Rename ${registryManager.formatReference(kind, entry.id)}` : `Edit note of ${registryManager.formatReference(kind, entry.id)}`,
+      `registry:${kind}:${entry.id}:${field}`
+    );
+  };
+
+  return (
+    <li className="registry-panel-row">
+      <span className="registry-panel-id">
+        {REGISTRY_KINDS[kind].prefix}[
+        <input
+          className="input-base"
+          type="number"
+          min={1}
+          value={idDraft}
+          onChange={e => setIdDraft(e.target.value)}
+          onBlur={commitId}
+          onKeyDown={e => { if (e.key === 'Enter') commitId(); }}
+          aria-label="ID"
+        />
+        ]
+      </span>
+      <ManagedInput initialValue={entry.name} onCommit={value => updateField('name', String(value))} placeholder="Name" />
+      <button
+        className="icon-button icon-button-danger"
+        onClick={() => onChange(r => registryManager.removeEntry(r, kind, entry.id), `Remove ${registryManager.formatReference(kind, entry.id)}`)}
+        title="Remove"
+        aria-label={`Remove ${registryManager.formatReference(kind, entry.id)}`}
+      >
+        <X size={14} />
+      </button>
+      <div className="registry-panel-note">
+        <ManagedInput initialValue={entry.note} onCommit={value => updateField('note', String(value))} placeholder="Note" />
+      </div>
+    </li>
+  );
+};
+
+export const RegistryPanel = ({ registry, onChange }: RegistryPanelProps) => {
+  const [kind, setKind] = useState<RegistryKind>('variable');
+  const [query, setQuery] = useState('');
+  const entries = registry.entries[kind];
+
+  const visibleEntries = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(e => String(e.id).startsWith(q) || e.name.toLowerCase().includes(q) || e.note.toLowerCase().includes(q));
+  }, [entries, query]);
+
+  const handleAdd = () => {
+    const id = registryManager.nextFreeId(registry, kind);
+    onChange(r => registryManager.setEntry(r, kind, { id, name: '', note: '' }), `Add ${registryManager.formatReference(kind, id)}`);
+    setQuery('');
+  };
+
+  return (
+    <div className="registry-panel">
+      <div className="registry-panel-header">
+        <h2>Registry</h2>
+        <button className="icon-button" onClick={handleAdd} title={`Add to ${REGISTRY_KINDS[kind].label}`} aria-label={`Add to ${REGISTRY_KINDS[kind].label}`}>
+          <Plus size={16} />
+        </button>
+      </div>
+      <div className="registry-panel-tabs" role="tablist">
+        {(Object.keys(REGISTRY_KINDS) as RegistryKind[]).map(k => (
+          <button
+            key={k}
+            className={`registry-panel-tab ${k === kind ? 'active' : ''}`}
+            role="tab"
+            aria-selected={k === kind}
+            onClick={() => setKind(k)}
+          >
+            {REGISTRY_KINDS[k].label} ({registry.entries[k].length})
+          </button>
+        ))}
+      </div>
+      <input
+        className="input-base registry-panel-search"
+        placeholder="Filter by ID, name or note..."
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+      />
+      <ul className="registry-panel-list">
+        {visibleEntries.map(entry => (
+          <RegistryRow
+            key={entry.id}
+            kind={kind}
+            entry={entry}
+            isIdTaken={id => entries.some(e => e.id === id)}
+            onChange={onChange}
+          />
+        ))}
+        {visibleEntries.length === 0 && (
+          <li className="registry-panel-empty">{entries.length === 0 ? 'Nothing named yet' : 'No matches'}</li>
+        )}
+      </ul>
+      <label className="registry-panel-option">
+        <input
+          type="checkbox"
+          checked={registry.emitDefs}
+          onChange={e => {
+            const emitDefs = e.target.checked;
+            onChange(r => ({ ...r, emitDefs }), emitDefs ? 'Generate def statements' : 'Stop generating def statements');
+          }}
+        />
+        Generate <code>def</code> statements for named entries
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { RegistryKind, RegistryEntry } from '@/types';
+import { registryManager, REGISTRY_KINDS } from '@/engine/registry';
+import { RegistryContext } from '@/contexts/RegistryContext';
+
+interface RegistryPickerProps {
+  kind: RegistryKind;
+  value: string;
+  // Whether the field takes a bare ID rather than a reference like `v[12]`.
+  bare: boolean;
+  onSelect: (value: string) => void;
+  // The field's own input, for typing a value by hand.
+  children: React.ReactNode;
+}
+
+export const RegistryPicker = ({ kind, value, bare, onSelect, children }: RegistryPickerProps) => {
+  const registry = useContext(RegistryContext);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const entries = registry?.entries[kind] || [];
+  const current = registryManager.getEntry(registry, kind, registryManager.parseReference(kind, value, bare));
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(e => String(e.id).startsWith(q) || e.name.toLowerCase().includes(q) || e.note.toLowerCase().includes(q));
+  }, [entries, query]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const open = () => {
+    setQuery('');
+    setIsOpen(true);
+  };
+
+  const select = (entry: RegistryEntry) => {
+    onSelect(bare ? String(entry.id) : registryManager.formatReference(kind, entry.id));
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (matches[activeIndex]) select(matches[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  const label = REGISTRY_KINDS[kind].label.toLowerCase();
+
+  return (
+    <div className="registry-picker" ref={rootRef}>
+      <div className="registry-picker-field">
+        {children}
+        <button
+          className="icon-button"
+          onClick={() => isOpen ? setIsOpen(false) : open()}
+          title={`Pick from named ${label}`}
+          aria-label={`Pick from named ${label}`}
+          aria-expanded={isOpen}
+        >
+          <BookOpen size={14} />
+        </button>
+      </div>
+      {current && <div className="registry-picker-name" title={current.note || undefined}>{current.name}</div>}
+      {isOpen && (
+        <div className="registry-picker-popover nodrag nowheel">
+          <input
+            className="input-base"
+            placeholder={`Search ${label}...`}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            autoFocus
+          />
+          <ul className="registry-picker-list" role="listbox">
+            {matches.map((entry, index) => (
+              <li
+                key={entry.id}
+                className={`registry-picker-item ${index === activeIndex ? 'active' : ''}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => select(entry)}
+                title={entry.note || undefined}
+              >
+                <span className="registry-picker-item-id">{registryManager.formatReference(kind, entry.id)}</span>
+                <span>{entry.name}</span>
+              </li>
+            ))}
+            {matches.length === 0 && (
+              <li className="registry-picker-empty">
+                {entries.length === 0 ? `No named ${label} yet. Add them in the Registry panel.` : `No matching ${label}`}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
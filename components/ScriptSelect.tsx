@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useContext } from 'react';
+import { ScriptsContext } from '@/contexts/ScriptsContext';
+
+interface ScriptSelectProps {
+  value: any;
+  onSelect: (fileName: string) => void;
+}
+
+// A dropdown of the project's other scripts, by output file. Nothing is shown while there are none.
+export const ScriptSelect = ({ value, onSelect }: ScriptSelectProps) => {
+  const { scripts, activeScriptId } = useContext(ScriptsContext);
+  const siblings = scripts.filter(s => s.id !== activeScriptId);
+  if (siblings.length === 0) return null;
+
+  const text = String(value ?? '').trim();
+  const isListed = siblings.some(s => s.fileName === text);
+  return (
+    <select
+      className="input-base script-select"
+      value={isListed ? text : ''}
+      onChange={e => onSelect(e.target.value)}
+      aria-label="Script"
+    >
+      {!isListed && <option value="">{text ? `${text}: not a script of this project` : 'Choose a script...'}</option>}
+      {siblings.map(script => (
+        <option key={script.id} value={script.fileName}>{script.name} ({script.fileName})</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { Plus, Settings2, X } from 'lucide-react';
+import { ScriptInfo, MAIN_SCRIPT_ID } from '@/engine/scripts';
+
+interface ScriptTabsProps {
+  scripts: ScriptInfo[];
+  activeScriptId: string;
+  onSelect: (scriptId: string) => void;
+  onAdd: () => void;
+  onEdit: (scriptId: string) => void;
+  onDelete: (scriptId: string) => void;
+}
+
+// One tab per script of the project. The main script can be renamed but not deleted.
+export const ScriptTabs = ({ scripts, activeScriptId, onSelect, onAdd, onEdit, onDelete }: ScriptTabsProps) => (
+  <div className="script-tabs" role="tablist">
+    {scripts.map(script => {
+      const isActive = script.id === activeScriptId;
+      return (
+        <div key={script.id} className={`script-tab ${isActive ? 'active' : ''}`} title={script.fileName}>
+          <button className="script-tab-name" role="tab" aria-selected={isActive} onClick={() => onSelect(script.id)}>
+            {script.name}
+          </button>
+          {isActive && (
+            <button className="icon-button" onClick={() => onEdit(script.id)} title="Script settings" aria-label={`Settings of ${script.name}`}>
+              <Settings2 size={12} />
+            </button>
+          )}
+          {script.id !== MAIN_SCRIPT_ID && (
+            <button className="icon-button icon-button-danger" onClick={() => onDelete(script.id)} title="Delete script" aria-label={`Delete ${script.name}`}>
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      );
+    })}
+    <button className="icon-button" onClick={onAdd} title="Add script" aria-label="Add script">
+      <Plus size={14} />
+    </button>
+  </div>
+);
@@ -7,6 +7,8 @@ import { createPortal } from 'react-dom';
 import { Handle, Position, HandleProps } from '@xyflow/react';
 import { SocketDef } from '@/types';
 import { HandlePortalContext } from '@/contexts/HandlePortalContext';
+import { GraphContext } from '@/contexts/GraphContext';
+import { getConnectionError } from '@/engine/graphValidator';
 
 interface SocketHandleProps {
   socket: SocketDef;
@@ -17,6 +19,7 @@ interface SocketHandleProps {
 
 export const SocketHandle: React.FC<SocketHandleProps & Omit<HandleProps, 'id'|'type'|'position'>> = ({ socket, isMainExec = false, isStatic = false, staticTop = 0, style, className, ...rest }) => {
   const portalContainers = useContext(HandlePortalContext);
+  const connectingSocket = useContext(GraphContext)?.connectingSocket;
   const placeholderRef = useRef<HTMLSpanElement>(null);
   // For dynamic handles, start with null `top` to indicate position is not yet calculated.
   const [top, setTop] = useState<number | null>(isStatic ? staticTop : null);
@@ -65,12 +68,22 @@ export const SocketHandle: React.FC<SocketHandleProps & Omit<HandleProps, 'id'|'
   const handleIdWithDirection = isInput ? `${handleId}_in` : `${handleId}_out`;
   const position = isInput ? Position.Left : Position.Right;
   
+  // While a wire is dragged, sockets that would accept it are highlighted and the rest dimmed.
+  let connectClassName = '';
+  if (connectingSocket && connectingSocket.id !== socket.id) {
+    const isAccepted = connectingSocket.io !== socket.io && (connectingSocket.io === 'output'
+      ? !getConnectionError(connectingSocket, socket)
+      : !getConnectionError(socket, connectingSocket));
+    connectClassName = isAccepted ? 'connect-valid' : 'connect-invalid';
+  }
+
   const handleClassName = [
     'socket-handle',
     socket.type,
     socket.io,
     className || '',
-    isMainExec ? 'main-exec' : ''
+    isMainExec ? 'main-exec' : '',
+    connectClassName
   ].join(' ').trim();
   
   const dataTypeForColor = (socket.type === 'exec' ? 'Exec' : (socket.dataType || 'Default')).replace('..', '--');
@@ -5,165 +5,9 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export const DATA_FILES: Record<string, string[]> = {
-  Utility: [
-    'data/Utility/utility_01_raw.json',
-  ],
-  Directives: [
-    'data/Directives/directive_01_operations.json',
-    'data/Directives/directive_02_bin2text.json',
-    'data/Directives/directive_03_text2bin.json',
-    'data/Directives/directive_04_blueprints.json',
-    'data/Directives/directive_05_directory.json',
-    'data/Directives/directive_06_copyMode.json',
-    'data/Directives/directive_07_include.json',
-    'data/Directives/directive_08_msg.json',
-    'data/Directives/directive_09_optimize.json',
-    'data/Directives/directive_10_brace.json',
-  ],
-  Event_Commands: [
-    'data/Event_Commands/command_01_Text.json',
-    'data/Event_Commands/command_02_Display_Text_Options.json',
-    'data/Event_Commands/command_03_Change_Faceset.json',
-    'data/Event_Commands/command_04_Show_Choices.json',
-    'data/Event_Commands/command_05_Input_Number.json',
-    'data/Event_Commands/command_06_TPC_Control_Text_Processing.json',
-    'data/Event_Commands/command_07_Timer_Operation.json',
-    'data/Event_Commands/command_08_Change_Gold.json',
-    'data/Event_Commands/command_09_Change_Items.json',
-    'data/Event_Commands/command_10_Change_Party_Member.json',
-    'data/Event_Commands/command_11_Change_EXP.json',
-    'data/Event_Commands/command_12_Change_Level.json',
-    'data/Event_Commands/command_13_Change_Parameters.json',
-    'data/Event_Commands/command_14_Change_Skills.json',
-    'data/Event_Commands/command_15_Change_Equipment.json',
-    'data/Event_Commands/command_16_Change_HP.json',
-    'data/Event_Commands/command_17_Change_MP.json',
-    'data/Event_Commands/command_18_Change_State.json',
-    'data/Event_Commands/command_19_Recover_All.json',
-    'data/Event_Commands/command_20_Damage_Processing.json',
-    'data/Event_Commands/command_21_Change_Actor_Name.json',
-    'data/Event_Commands/command_22_Change_Actor_Nickname.json',
-    'data/Event_Commands/command_23_Change_Actor_Graphic.json',
-    'data/Event_Commands/command_24_Change_Actor_Faceset.json',
-    'data/Event_Commands/command_25_Change_Vehicle_Graphic.json',
-    'data/Event_Commands/command_26_Change_System_BGM.json',
-    'data/Event_Commands/command_27_Change_System_SE.json',
-    'data/Event_Commands/command_28_Change_System_Graphic.json',
-    'data/Event_Commands/command_29_Change_Screen_Transition.json',
-    'data/Event_Commands/command_30_Change_location.json',
-    'data/Event_Commands/command_31_Transfer_Player.json',
-    'data/Event_Commands/command_32_Get_Player_Location.json',
-    'data/Event_Commands/command_33_Get_OnOff_Vehicle.json',
-    'data/Event_Commands/command_34_Set_Vehicle_Location.json',
-    'data/Event_Commands/command_35_Set_Event_Location.json',
-    'data/Event_Commands/command_36_Swap_Event_Location.json',
-    'data/Event_Commands/command_37_Get_Terrain_ID.json',
-    'data/Event_Commands/command_38_Get_Event_ID.json',
-    'data/Event_Commands/command_39_Hide_Screen.json',
-    'data/Event_Commands/command_40_Show_Screen.json',
-    'data/Event_Commands/command_41_Tint_Screen.json',
-    'data/Event_Commands/command_42_Flash_Screen.json',
-    'data/Event_Commands/command_43_Shake_Screen.json',
-    'data/Event_Commands/command_44_Scroll_Map.json',
-    'data/Event_Commands/command_45_Weather_Effect_Settings.json',
-    'data/Event_Commands/command_46_Show_Picture.json',
-    'data/Event_Commands/command_47_Move_Picture.json',
-    'data/Event_Commands/command_48_Erase_Picture.json',
-    'data/Event_Commands/command_49_Show_Animation.json',
-    'data/Event_Commands/command_50_ShowHide_Player.json',
-    'data/Event_Commands/command_51_Flash_Event.json',
-    'data/Event_Commands/command_52_Set_Move_Route.json',
-    'data/Event_Commands/command_53_TPC_Add_Move_Route.json',
-    'data/Event_Commands/command_54_Wait_for_All_Movement.json',
-    'data/Event_Commands/command_55_Stop_All_Movement.json',
-    'data/Event_Commands/command_56_Wait.json',
-    'data/Event_Commands/command_57_Play_BGM.json',
-    'data/Event_Commands/command_58_Fadeout_BGM.json',
-    'data/Event_Commands/command_59_Memorize_BGM.json',
-    'data/Event_Commands/command_60_Play_Memorized_BGM.json',
-    'data/Event_Commands/command_61_Play_SE.json',
-    'data/Event_Commands/command_62_Play_Movie.json',
-    'data/Event_Commands/command_63_Key_Input_Processing.json',
-    'data/Event_Commands/command_64_Change_Tileset.json',
-    'data/Event_Commands/command_65_Change_Parallax_Back.json',
-    'data/Event_Commands/command_66_Change_Tile.json',
-    'data/Event_Commands/command_67_Set_Encounter_Rate.json',
-    'data/Event_Commands/command_68_Set_Teleportation_Point_.json',
-    'data/Event_Commands/command_69_Teleportation_OnOff_.json',
-    'data/Event_Commands/command_70_Set_Escape_Location_.json',
-    'data/Event_Commands/command_71_Change_Escape_Access_.json',
-    'data/Event_Commands/command_72_TPC_Call_System_Functions.json',
-    'data/Event_Commands/command_73_TPC_Control_System_Functions.json',
-    'data/Event_Commands/command_74_Label.json',
-    'data/Event_Commands/command_75_Jump_to_Label.json',
-    'data/Event_Commands/command_76_Loop.json',
-    'data/Event_Commands/command_77_TPC_foreach.json',
-    'data/Event_Commands/command_78_Break_Loop.json',
-    'data/Event_Commands/command_79_Continue.json',
-    'data/Event_Commands/command_80_End_Event_Processing.json',
-    'data/Event_Commands/command_81_Erase_Event.json',
-    'data/Event_Commands/command_82_Call_Event.json',
-    'data/Event_Commands/command_83_Comment.json',
-    'data/Event_Commands/command_84_Game_Over.json',
-    'data/Event_Commands/command_85_Return_to_Title_Screen.json',
-    'data/Event_Commands/command_86_Exit_Game.json',
-    'data/Event_Commands/command_87_MNC_Get_Save_Info.json',
-    'data/Event_Commands/command_88_MNC_Save.json',
-    'data/Event_Commands/command_89_MNC_Load.json',
-    'data/Event_Commands/command_90_MNC_End_Load_Processing_Do_Nothing_.json',
-    'data/Event_Commands/command_91_MNC_GetSet_Mouse_Position.json',
-    'data/Event_Commands/command_100_MNC_Control_Shared_Save.json',
-    'data/Event_Commands/command_101_MNC_Set_Picture_ID.json',
-    'data/Event_Commands/command_102_MNC_Set_Game_Option.json',
-    'data/Event_Commands/command_103_MNC_Call_Command.json',
-    'data/Event_Commands/command_104_Conditional_Branch.json',
-    'data/Event_Commands/command_105_TPC_If_stringVar.json',
-    'data/Event_Commands/command_106_Control_Switches.json',
-    'data/Event_Commands/command_107_Control_Variables.json',
-    'data/Event_Commands/command_108_TPC_Control_String_Variables.json',
-    'data/Event_Commands/command_109_TPC_Get_Game_Info.json',
-    'data/Event_Commands/command_110_Change_Actor_Class.json',
-    'data/Event_Commands/command_111_Change_Battle_Commands.json',
-    'data/Event_Commands/command_112_Toggle_ATB_Wait_Mode.json',
-    'data/Event_Commands/command_113_MNC_Control_Battle.json',
-    'data/Event_Commands/command_114_MNC_Control_ATB_Gauge.json',
-    'data/Event_Commands/command_115_MNC_Battle_Command_EX.json',
-    'data/Event_Commands/command_116_MNC_Get_Battle_Info.json',
-    'data/Event_Commands/command_117_BT_Change_Enemy_HP.json',
-    'data/Event_Commands/command_118_BT_Change_Enemy_MP.json',
-    'data/Event_Commands/command_119_BT_Change_Enemy_State.json',
-    'data/Event_Commands/command_120_BT_Enemy_Encounter.json',
-    'data/Event_Commands/command_121_BT_Change_Battle_Background.json',
-    'data/Event_Commands/command_122_BT_Show_Animation.json',
-    'data/Event_Commands/command_123_BT_Action_Times_.json',
-    'data/Event_Commands/command_124_BT_Force_Escape.json',
-    'data/Event_Commands/command_125_BT_Conditional_Branch.json',
-    'data/Event_Commands/command_126_BT_Call_Common_Event.json',
-    'data/Event_Commands/command_127_BT_Abort_Battle.json',
-    'data/Event_Commands/command_128_Name_Input_Processing.json',
-    'data/Event_Commands/command_129_Battle_Processing.json',
-    'data/Event_Commands/command_130_Inn_Processing.json',
-    'data/Event_Commands/command_131_Shop_Processing.json',
-    'data/Event_Commands/command_132_Open_Load_Menu.json',
-    'data/Event_Commands/command_133_Open_Video_Option.json',
-    'data/Event_Commands/command_134_Toggle_Fullscreen_Mode.json',
-    'data/Event_Commands/command_135_Open_Menu_Screen.json',
-    'data/Event_Commands/command_136_Change_Menu_Access.json',
-    'data/Event_Commands/command_137_Others.json',
-  ],
-  Meta_commands: [
-    'data/Meta_commands/meta_command_01_def.json',
-    'data/Meta_commands/meta_command_02_def_vars.json',
-    'data/Meta_commands/meta_command_03_meta_variable.json',
-    'data/Meta_commands/meta_command_04_meta_function.json',
-    'data/Meta_commands/meta_command_05_meta_loop.json',
-    'data/Meta_commands/meta_command_06_meta_if.json',
-    'data/Meta_commands/meta_command_07_meta_id.json',
-    'data/Meta_commands/meta_command_08_meta_str.json',
-    'data/Meta_commands/meta_command_09_meta_defined.json',
-  ],
-};
+// The definition files are discovered from the data/ folders at build time (see build/definitionBundle.ts).
+// DATA_FILES maps each category, named after its folder, to its files; DEFINITIONS_URL holds all of their commands in one payload.
+export { DATA_FILES, DEFINITIONS_URL } from 'virtual:definition-manifest';
 
 export const SOCKET_COLORS: Record<string, string> = {
   Exec: '#ffffff',
@@ -172,4 +16,22 @@ export const SOCKET_COLORS: Record<string, string> = {
   Variable: '#9b59b6',
   Condition: '#f1c40f',
   Default: '#e67e22',
-};
\ No newline at end of file
+};
+
+// Which input types each data output may feed, besides its own type. `Default` sockets (Raw Code
+// and JS Code) connect to anything. A variable reference like `v[1]` can stand in for a number,
+// and any single value can be used where TPC takes a generic Value or an Expression. Composed
+// expressions (see the Expressions nodes) are accepted wherever TPC evaluates its arguments.
+export const SOCKET_COMPATIBILITY: Record<string, string[]> = {
+  Numeric: ['Value', 'Expression'],
+  Variable: ['Numeric', 'Value', 'Expression'],
+  Switch: ['Condition', 'Value', 'Expression'],
+  String: ['Value'],
+  Condition: ['Value', 'Expression'],
+  Expression: ['Value', 'Condition', 'Numeric', 'Variable'],
+  Value: ['Expression'],
+  'Numeric..Numeric': ['Value'],
+};
+
+// The colors offered for comment frames. New frames take them in turn.
+export const FRAME_COLORS: string[] = ['#4a90e2', '#2ecc71', '#f1c40f', '#e67e22', '#e74c3c', '#9b59b6', '#7f8c8d'];
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { GameDatabase } from '@/engine/gameDatabase';
+
+// Names imported from the game's database, shown next to the IDs in entity fields.
+export const GameDatabaseContext = React.createContext<GameDatabase>({});
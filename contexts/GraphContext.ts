@@ -3,6 +3,12 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { Graph } from '@/types';
+import { Graph, SocketDef } from '@/types';
 
-export const GraphContext = React.createContext<{ graph: Graph } | null>(null);
+export interface GraphContextType {
+  graph: Graph;
+  // The socket a wire is being dragged from, so the other sockets can show whether they accept it.
+  connectingSocket: SocketDef | null;
+}
+
+export const GraphContext = React.createContext<GraphContextType | null>(null);
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { Registry } from '@/types';
+
+// The project's registry, shown by the variable and switch pickers of every node.
+export const RegistryContext = React.createContext<Registry | undefined>(undefined);
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ScriptInfo } from '@/engine/scripts';
+
+// The scripts of the project, offered by fields that include another script.
+export const ScriptsContext = React.createContext<{ scripts: ScriptInfo[]; activeScriptId: string | null }>({ scripts: [], activeScriptId: null });
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { importParser } from '@/engine/importParser';
+import { codeGenerator } from '@/engine/codeGenerator';
+import { frameManager } from '@/engine/frames';
+import { loadTestDefinitions } from '@/engine/testDefinitions';
+
+const definitions = loadTestDefinitions();
+
+describe('codeGenerator.generate', () => {
+  it('writes a frame title with quotes and line breaks as one valid @comment line', () => {
+    const graph = importParser.parse('@msg.show "hello"', definitions);
+    const frame = {
+      ...frameManager.create({ x: graph.nodes[0].position.x - 10, y: graph.nodes[0].position.y - 10 }, { width: 400, height: 300 }, '#ffffff', 'Say "hi"\nto C:\\Users'),
+      emitComment: true,
+    };
+    const { code } = codeGenerator.generate({ ...graph, frames: [frame] });
+    expect(code).toBe('@comment "Say \\"hi\\" to C:\\\\Users"\n@msg.show "hello"');
+
+    const imported = importParser.parseDetailed(code, definitions);
+    expect(imported.statements.every(s => s.parsed)).toBe(true);
+    expect(codeGenerator.generate(imported.graph).code).toBe(code);
+  });
+});
@@ -3,13 +3,191 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Graph, NodeInstance, Connection } from '@/types';
-import { argumentWalker, WalkerHandlers } from './argumentWalker';
+import { argumentWalker, WalkerContext, WalkerHandlers } from './argumentWalker';
 import { getIdentifier } from './nodeFactory';
+import { subgraphManager } from './subgraphs';
+import { frameManager } from './frames';
+import { dataFlow, JS_NODE_COMMAND } from './dataFlow';
+
+export interface GenerationError {
+    type: 'exec-cycle' | 'data-cycle' | 'subgraph-recursion';
+    message: string;
+    nodeIds: string[];
+}
+
+// The lines `startLine` to `endLine` (0-based, inclusive) of the code came from this node. `argKey`
+// is the value key of the argument the lines start in; it is missing for lines that start with the
+// command itself, and for lines inside a subgraph node.
+export interface SourceMapEntry {
+    nodeId: string;
+    argKey?: string;
+    startLine: number;
+    endLine: number;
+}
+
+export interface GenerationResult {
+    code: string;
+    errors: GenerationError[];
+    sourceMap: SourceMapEntry[];
+}
+
+// Follows exec connections (main `exec_out` and block sockets alike) and returns every
+// cycle found, each as the list of node ids along the loop.
+const findExecCycles = (nodes: NodeInstance[], connections: Connection[]): string[][] => {
+    const successors = new Map<string, string[]>();
+    connections.forEach(c => {
+        if (c.toSocket !== `${c.toNode}-exec_in`) return;
+        if (!successors.has(c.fromNode)) successors.set(c.fromNode, []);
+        successors.get(c.fromNode)!.push(c.toNode);
+    });
+
+    const cycles: string[][] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (nodeId: string) => {
+        state.set(nodeId, 'visiting');
+        stack.push(nodeId);
+        for (const next of successors.get(nodeId) || []) {
+            const nextState = state.get(next);
+            if (nextState === 'visiting') {
+                cycles.push(stack.slice(stack.indexOf(next)));
+            } else if (!nextState) {
+                visit(next);
+            }
+        }
+        stack.pop();
+        state.set(nodeId, 'done');
+    };
+
+    nodes.forEach(n => {
+        if (!state.has(n.id)) visit(n.id);
+    });
+    return cycles;
+};
+
+// Frame comments are written before the code of every member, behind a marker holding the
+// frame's key. Once the script is complete, only the first line for each key is kept.
+const FRAME_MARKER = '\u0000';
+const FRAME_MARKER_PATTERN = new RegExp(`${FRAME_MARKER}([^${FRAME_MARKER}]*)${FRAME_MARKER}`);
+
+// Frame titles are free text, so they are made a valid one-line string.
+const toCommentString = (title: string) => `"${title.replace(/\s*[\r\n]+\s*/g, ' ').replace(/["\\]/g, '\\$&')}"`;
+
+// The `@comment` lines of the frames around each node of the flattened graph. Frames inside a
+// subgraph get one key per subgraph node, so every copy of the subgraph gets its comment.
+const getFrameComments = (graph: Graph, flatNodes: NodeInstance[]): Map<string, { key: string; title: string }[]> => {
+    const comments = new Map<string, { key: string; title: string }[]>();
+    const add = (nodeId: string, key: string, title: string) => {
+        if (!comments.has(nodeId)) comments.set(nodeId, []);
+        comments.get(nodeId)!.push({ key, title });
+    };
+
+    (graph.frames || []).filter(f => f.emitComment).forEach(frame => {
+        const memberIds = new Set(frameManager.getMembers(frame, graph.nodes).map(n => n.id));
+        flatNodes.forEach(n => {
+            if (memberIds.has(subgraphManager.getSourceNodeId(n.id))) add(n.id, frame.id, frame.title);
+        });
+    });
+    (graph.subgraphs || []).forEach(subgraph => {
+        (subgraph.frames || []).filter(f => f.emitComment).forEach(frame => {
+            frameManager.getMembers(frame, subgraph.nodes).forEach(member => {
+                flatNodes.forEach(n => {
+                    if (n.id.endsWith(`/${member.id}`)) add(n.id, `${n.id.slice(0, -member.id.length)}${frame.id}`, frame.title);
+                });
+            });
+        });
+    });
+    return comments;
+};
+
+// Each node's code, and the code of each of its arguments, is wrapped in markers holding the node
+// id or argument key. They are taken out again once the script is complete, building the source map.
+const SOURCE_MARKER = '\u0001';
+const SOURCE_MARKER_PATTERN = new RegExp(`${SOURCE_MARKER}([<>()])([^${SOURCE_MARKER}]*)${SOURCE_MARKER}`, 'g');
+const markNode = (nodeId: string, code: string) =>
+    code.replace(/^\s*/, indent => `${indent}${SOURCE_MARKER}<${nodeId}${SOURCE_MARKER}`) + `${SOURCE_MARKER}>${SOURCE_MARKER}`;
+const markArgument = <T extends string | null>(key: string, code: T): T =>
+    (code ? `${SOURCE_MARKER}(${key}${SOURCE_MARKER}${code}${SOURCE_MARKER})${SOURCE_MARKER}` : code) as T;
+
+// Removes the source markers. Every line is attributed to the innermost node open at its first
+// non-blank character, together with the innermost argument of that node open there.
+const extractSourceMap = (markedCode: string): { code: string; sourceMap: SourceMapEntry[] } => {
+    const sourceMap: SourceMapEntry[] = [];
+    const nodes: { nodeId: string; args: string[] }[] = [];
+    const lines = markedCode.split('\n').map((line, lineIndex) => {
+        let attributed = false;
+        let text = '';
+        const attribute = () => {
+            attributed = true;
+            const open = nodes[nodes.length - 1];
+            if (!open) return;
+            const nodeId = subgraphManager.getSourceNodeId(open.nodeId);
+            // Arguments of the nodes inside a subgraph mean nothing on the subgraph node.
+            const argKey = nodeId === open.nodeId ? open.args[open.args.length - 1] : undefined;
+            const last = sourceMap[sourceMap.length - 1];
+            if (last && last.nodeId === nodeId && last.argKey === argKey && last.endLine === lineIndex - 1) {
+                last.endLine = lineIndex;
+            } else {
+                sourceMap.push({ nodeId, argKey, startLine: lineIndex, endLine: lineIndex });
+            }
+        };
+
+        let position = 0;
+        for (const match of line.matchAll(SOURCE_MARKER_PATTERN)) {
+            const before = line.slice(position, match.index);
+            if (!attributed && before.trim()) attribute();
+            text += before;
+            position = match.index! + match[0].length;
+            const [, kind, payload] = match;
+            if (kind === '<') nodes.push({ nodeId: payload, args: [] });
+            else if (kind === '>') nodes.pop();
+            else if (kind === '(') nodes[nodes.length - 1]?.args.push(payload);
+            else nodes[nodes.length - 1]?.args.pop();
+        }
+        const rest = line.slice(position);
+        if (!attributed && (rest.trim() || !text.trim())) attribute();
+        return text + rest;
+    });
+    return { code: lines.join('\n'), sourceMap };
+};
+
+const keepFirstFrameComments = (code: string): string => {
+    const emitted = new Set<string>();
+    return code.split('\n').flatMap(line => {
+        const match = line.match(FRAME_MARKER_PATTERN);
+        if (!match) return [line];
+        if (emitted.has(match[1])) return [];
+        emitted.add(match[1]);
+        return [line.replace(match[0], '')];
+    }).join('\n');
+};
 
 export const codeGenerator = {
-  generate(graph: Graph): string {
-    const { nodes, connections } = graph;
+  generate(graph: Graph): GenerationResult {
+    // Subgraph nodes are replaced by copies of their inner nodes, so their code is inlined.
+    const { graph: flatGraph, recursiveNodes } = subgraphManager.flatten(graph);
+    const { nodes, connections } = flatGraph;
     const nodeMap = new Map(nodes.map(n => [n.id, n]));
+    const frameComments = getFrameComments(graph, nodes);
+    const errors: GenerationError[] = [];
+    const reportedCycles = new Set<string>();
+
+    const reportCycle = (type: GenerationError['type'], nodeIds: string[]) => {
+        const uniqueIds = [...new Set(nodeIds)];
+        const signature = `${type}:${[...uniqueIds].sort().join(',')}`;
+        if (reportedCycles.has(signature)) return;
+        reportedCycles.add(signature);
+
+        const names = uniqueIds.map(id => nodeMap.get(id)?.displayName || id).join(' → ');
+        errors.push({
+            type,
+            message: type === 'exec-cycle'
+                ? `Execution loop between nodes: ${names}. The loop is cut where it repeats.`
+                : `Data connections form a loop between nodes: ${names}. The value is left empty.`,
+            nodeIds: uniqueIds,
+        });
+    };
     
     const connectionsFrom = new Map<string, Connection[]>();
     connections.forEach(c => {
@@ -19,31 +197,25 @@ export const codeGenerator = {
         connectionsFrom.get(c.fromSocket)!.push(c);
     });
 
-    const connectionsTo = new Map<string, Connection>();
-    connections.forEach(c => connectionsTo.set(c.toSocket, c));
-
-    const getSocketValue = (node: NodeInstance, valueKey: string): any => {
-        const socketId = `${node.id}-${valueKey}`;
-        const connection = connectionsTo.get(socketId);
-        if (connection) {
-            const sourceNode = nodeMap.get(connection.fromNode);
-            if (sourceNode) {
-                const sourceSocketKey = connection.fromSocket.replace(`${connection.fromNode}-`, '');
-                
-                // For JSCode, the output value is stored with a `_result` suffix.
-                if (sourceNode.definition.nodeDef.command === 'Evaluate JS Code') {
-                  return sourceNode.values[`${sourceSocketKey}_result`];
-                }
+    const evaluator = dataFlow.createEvaluator(flatGraph, nodeIds => reportCycle('data-cycle', nodeIds));
+    const getSocketValue = (node: NodeInstance, valueKey: string) => evaluator.getValue(node.id, valueKey);
 
-                return getSocketValue(sourceNode, sourceSocketKey);
-            }
-        }
-        return node.values[valueKey];
-    };
+    // Nodes on the exec path currently being generated. Reaching one of them again means
+    // the chain loops back, and the branch stops there (the cycle itself is reported below).
+    const execPath: string[] = [];
     
     const traverse = (node: NodeInstance | undefined, indent: string): string => {
         if (!node) return '';
+        if (execPath.includes(node.id)) return '';
+        execPath.push(node.id);
+        try {
+            return traverseNode(node, indent);
+        } finally {
+            execPath.pop();
+        }
+    };
 
+    const traverseNode = (node: NodeInstance, indent: string): string => {
         // First, get the code from the rest of the chain by traversing forward
         const execOutSocket = node.sockets.outputs.find(s => s.name === 'exec_out');
         let nextCode = '';
@@ -62,8 +234,11 @@ export const codeGenerator = {
             return nextCode;
         }
 
-        // Otherwise, build the current node's code
-        const currentNodeCode = buildNodeCode(node, indent);
+        // Otherwise, build the current node's code, after the comments of the frames around it
+        const commentLines = (frameComments.get(node.id) || [])
+            .map(({ key, title }) => `${FRAME_MARKER}${key}${FRAME_MARKER}${indent}@comment ${toCommentString(title)}`);
+        const nodeCode = buildNodeCode(node, indent);
+        const currentNodeCode = nodeCode && [...commentLines, markNode(node.id, nodeCode)].join('\n');
         
         // And join them, only adding a newline if both exist
         if (currentNodeCode && nextCode) {
@@ -74,40 +249,36 @@ export const codeGenerator = {
         return currentNodeCode || nextCode;
     };
 
-    const codeGenHandlers = (indent: string): WalkerHandlers<string> => ({
-        onPrimitive: ({ arg, key, node }) => {
-            if (arg.type === 'JSCode') {
-                // This node doesn't generate code by itself. Its value is exposed via its output socket.
-                if (node.definition.nodeDef.command === 'Evaluate JS Code') {
-                    return null;
-                }
-                
-                const jsCodeToRun = getSocketValue(node, key);
-                if (!jsCodeToRun) return null;
-                try {
-                    const result = new Function(`return ${jsCodeToRun}`)();
-                    return String(result ?? '');
-                } catch (e) {
-                    console.error("JS evaluation error:", e);
-                    return `/* Error evaluating JS: ${(e as Error).message.replace(/\s/g, ' ')} */`;
-                }
+    const primitiveCode = ({ arg, key, node }: WalkerContext<string>): string | null => {
+        if (arg.type === 'JSCode') {
+            // This node doesn't generate code by itself. Its value is exposed via its output socket.
+            if (node.definition.nodeDef.command === JS_NODE_COMMAND) {
+                return null;
             }
             
-            const val = getSocketValue(node, key);
-            if (arg.optional && (val === undefined || val === null || val === '')) return null;
-            
-            const finalVal = (val === undefined || val === null) ? '' : val;
+            const jsCodeToRun = getSocketValue(node, key);
+            if (!jsCodeToRun) return null;
+            return dataFlow.evaluateInlineJs(jsCodeToRun);
+        }
+        
+        const val = getSocketValue(node, key);
+        if (arg.optional && (val === undefined || val === null || val === '')) return null;
+        
+        const finalVal = (val === undefined || val === null) ? '' : val;
 
-            if (arg.prefix) {
-                return `${arg.prefix}${String(finalVal)}`;
-            }
-            if (arg.is_identifier) {
-                return String(finalVal);
-            }
-            if (arg.type === 'String') return `"${String(finalVal)}"`;
-            if (arg.type === 'RawCode') return String(finalVal);
+        if (arg.prefix) {
+            return `${arg.prefix}${String(finalVal)}`;
+        }
+        if (arg.is_identifier) {
             return String(finalVal);
-        },
+        }
+        if (arg.type === 'String') return `"${String(finalVal)}"`;
+        if (arg.type === 'RawCode') return String(finalVal);
+        return String(finalVal);
+    };
+
+    const codeGenHandlers = (indent: string): WalkerHandlers<string> => ({
+        onPrimitive: (ctx) => markArgument(ctx.key, primitiveCode(ctx)),
         onKeyword: ({ arg }) => {
             if (arg.value === '.hidden') return null; // Prevent '.hidden' from ever appearing in code
             return arg.value;
@@ -132,14 +303,14 @@ export const codeGenerator = {
             }
             return result;
         },
-        onBlock: ({ arg }, childResults) => {
+        onBlock: ({ arg, key }, childResults) => {
              const namePart = arg.name ? `${arg.name} ` : '';
              if (Array.isArray(arg.content)) {
                 const blockContent = childResults.join(`\n${indent}  `);
                 if (blockContent) {
-                   return `${namePart}{\n${indent}  ${blockContent}\n${indent}}`;
+                   return markArgument(key, `${namePart}{\n${indent}  ${blockContent}\n${indent}}`);
                 }
-                return `${namePart}{}`;
+                return markArgument(key, `${namePart}{}`);
              }
              return null;
         },
@@ -150,10 +321,10 @@ export const codeGenerator = {
                  const nextNode = nodeMap.get(blockConns[0].toNode);
                  if (nextNode) {
                     const blockCode = traverse(nextNode, indent + '  ');
-                    return `{\n${blockCode}\n${indent}}`;
+                    return markArgument(key, `{\n${blockCode}\n${indent}}`);
                  }
             }
-            return '{}';
+            return markArgument(key, '{}');
         },
         onGroup: (_, childResults) => childResults.join(' '),
         onArray: ({ arg }, itemResults) => {
@@ -184,7 +355,25 @@ export const codeGenerator = {
         },
     });
 
+    // Unresolved nodes can't be generated. They become a marked comment, with the code of
+    // any chains hanging off their block sockets commented out below it.
+    const buildUnresolvedNodeCode = (node: NodeInstance, indent: string): string => {
+        const lines = [`${indent}// UNRESOLVED NODE "${node.displayName}" (unknown type "${node.type}")`];
+        node.sockets.outputs.forEach(socket => {
+            if (socket.type !== 'exec' || socket.name === 'exec_out') return;
+            const nextNode = nodeMap.get(connectionsFrom.get(socket.id)?.[0]?.toNode ?? '');
+            const blockCode = traverse(nextNode, indent);
+            if (!blockCode) return;
+            lines.push(`${indent}// ${socket.name}:`);
+            blockCode.split('\n').forEach(line => lines.push(`${indent}//   ${line.slice(indent.length)}`));
+        });
+        return lines.join('\n');
+    };
+
     const buildNodeCode = (node: NodeInstance, indent: string): string => {
+        if (node.definition.unresolved) {
+            return buildUnresolvedNodeCode(node, indent);
+        }
         if (node.definition.nodeDef.command === 'Evaluate JS Code') {
             return '';
         }
@@ -231,6 +420,22 @@ export const codeGenerator = {
         !connections.some(c => c.toNode === n.id && c.toSocket.endsWith('-exec_in'))
     );
 
-    return startNodes.map(sn => traverse(sn, '')).filter(Boolean).join('\n\n');
+    findExecCycles(nodes, connections).forEach(cycle => reportCycle('exec-cycle', cycle));
+
+    recursiveNodes.forEach(node => {
+        errors.push({
+            type: 'subgraph-recursion',
+            message: `Subgraph "${node.displayName}" contains itself. It is left out of the generated code.`,
+            nodeIds: [node.id],
+        });
+    });
+
+    const { code, sourceMap } = extractSourceMap(keepFirstFrameComments(startNodes.map(sn => traverse(sn, '')).filter(Boolean).join('\n\n')));
+    // Point errors inside subgraphs at the subgraph nodes the user can see.
+    const mappedErrors = errors.map(error => ({
+        ...error,
+        nodeIds: [...new Set(error.nodeIds.map(subgraphManager.getSourceNodeId))],
+    }));
+    return { code, errors: mappedErrors, sourceMap };
   }
 };
\ No newline at end of file
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { importParser } from '@/engine/importParser';
+import { codeGenerator } from '@/engine/codeGenerator';
+import { codeSync } from '@/engine/codeSync';
+import { loadTestDefinitions } from '@/engine/testDefinitions';
+
+const definitions = loadTestDefinitions();
+
+const IF_ELSE = [
+  '@msg.show "before"',
+  '@if v[1] == 1 {',
+  '  @msg.show "yes 1"',
+  '  @msg.show "yes 2"',
+  '} .else {',
+  '  @msg.show "no 1"',
+  '  @msg.show "no 2"',
+  '}',
+  '@msg.show "after"',
+].join('\n');
+
+const LOOP = [
+  '@msg.show "before"',
+  '@loop 3 {',
+  '  @msg.show "body 1"',
+  '  @msg.show "body 2"',
+  '}',
+  '@msg.show "after"',
+].join('\n');
+
+// Imports `source`, edits its generated code and applies the edit. The regenerated code must be the edited code.
+const roundTrip = (source: string, edit: (lines: string[]) => void, keepUnparsed: boolean = false) => {
+  const graph = importParser.parse(source, definitions);
+  const { code, sourceMap } = codeGenerator.generate(graph);
+  const lines = code.split('\n');
+  edit(lines);
+  const editedCode = lines.join('\n');
+  const result = codeSync.apply(graph, code, editedCode, sourceMap, definitions, keepUnparsed);
+  return { graph, code, editedCode, result, regenerated: result.graph && codeGenerator.generate(result.graph).code };
+};
+
+// Inserts `text` after the line holding `anchor`, with that line's indentation.
+const insertAfter = (anchor: string, text: string) => (lines: string[]) => {
+  const index = lines.findIndex(line => line.includes(anchor));
+  lines.splice(index + 1, 0, `${lines[index].match(/^\s*/)![0]}${text}`);
+};
+
+// Inserts `text` as the first line of the block opened on the line holding `anchor`.
+const insertInto = (anchor: string, text: string) => (lines: string[]) => {
+  const index = lines.findIndex(line => line.includes(anchor));
+  lines.splice(index + 1, 0, `${lines[index].match(/^\s*/)![0]}  ${text}`);
+};
+
+const remove = (anchor: string) => (lines: string[]) => {
+  lines.splice(lines.findIndex(line => line.includes(anchor)), 1);
+};
+
+describe('codeSync.apply', () => {
+  it('generates the imported code unchanged', () => {
+    expect(codeGenerator.generate(importParser.parse(IF_ELSE, definitions)).code).toBe(IF_ELSE);
+    expect(codeGenerator.generate(importParser.parse(LOOP, definitions)).code).toBe(LOOP);
+  });
+
+  it.each([
+    ['at the start of the then block', insertInto('@if', '@msg.show "added"')],
+    ['at the end of the then block', insertAfter('"yes 2"', '@msg.show "added"')],
+    ['at the start of the else block', insertInto('.else', '@msg.show "added"')],
+    ['at the end of the else block', insertAfter('"no 2"', '@msg.show "added"')],
+    ['before the block statement', insertAfter('"before"', '@msg.show "added"')],
+    ['after the block statement', (lines: string[]) => lines.splice(lines.length - 1, 0, '@msg.show "added"')],
+  ])('inserts a line %s of an @if', (_, edit) => {
+    const { editedCode, result, regenerated } = roundTrip(IF_ELSE, edit);
+    expect(result.errors).toEqual([]);
+    expect(regenerated).toBe(editedCode);
+  });
+
+  it.each([
+    ['the first statement of the then block', remove('"yes 1"')],
+    ['the last statement of the then block', remove('"yes 2"')],
+    ['the first statement of the else block', remove('"no 1"')],
+    ['the last statement of the else block', remove('"no 2"')],
+    ['the last statement of the else block and the first after the @if', (lines: string[]) => {
+      remove('"no 2"')(lines);
+      remove('"after"')(lines);
+    }],
+  ])('deletes %s', (_, edit) => {
+    const { editedCode, result, regenerated } = roundTrip(IF_ELSE, edit);
+    expect(result.errors).toEqual([]);
+    expect(regenerated).toBe(editedCode);
+  });
+
+  it.each([
+    ['inserts a line at the start of a loop body', insertInto('@loop', '@msg.show "added"')],
+    ['inserts a line at the end of a loop body', insertAfter('"body 2"', '@msg.show "added"')],
+    ['deletes the first statement of a loop body', remove('"body 1"')],
+    ['deletes the last statement of a loop body', remove('"body 2"')],
+    ['changes a statement of a loop body', (lines: string[]) => {
+      const index = lines.findIndex(line => line.includes('"body 2"'));
+      lines[index] = lines[index].replace('body 2', 'changed');
+    }],
+  ])('%s', (_, edit) => {
+    const { editedCode, result, regenerated } = roundTrip(LOOP, edit);
+    expect(result.errors).toEqual([]);
+    expect(regenerated).toBe(editedCode);
+  });
+
+  // Empty blocks are generated as `{}`, so the edited code is compared with how it is generated.
+  it('empties a block', () => {
+    const { editedCode, result, regenerated } = roundTrip(IF_ELSE, lines => {
+      remove('"yes 1"')(lines);
+      remove('"yes 2"')(lines);
+    });
+    expect(result.errors).toEqual([]);
+    expect(regenerated).toBe(codeGenerator.generate(importParser.parse(editedCode, definitions)).code);
+    expect(regenerated).toContain('@if v[1] == 1 {} .else {');
+  });
+
+  it('inserts a line into an empty loop body', () => {
+    const emptyLoop = LOOP.replace('{\n  @msg.show "body 1"\n  @msg.show "body 2"\n}', '{}');
+    const { editedCode, result, regenerated } = roundTrip(emptyLoop, lines => {
+      const index = lines.findIndex(line => line.includes('@loop'));
+      lines.splice(index, 1, '@loop 3 {', '  @msg.show "added"', '}');
+    });
+    expect(result.errors).toEqual([]);
+    expect(regenerated).toBe(editedCode);
+  });
+
+  it('keeps the nodes of unchanged statements', () => {
+    const { graph, result } = roundTrip(IF_ELSE, insertAfter('"yes 2"', '@msg.show "added"'));
+    const ids = result.graph!.nodes.map(n => n.id);
+    graph.nodes.forEach(node => expect(ids).toContain(node.id));
+    expect(ids).toHaveLength(graph.nodes.length + 1);
+  });
+
+  it.each([
+    ['at the end of the then block', insertAfter('"yes 2"', 'not a command')],
+    ['at the start of the else block', insertInto('.else', 'not a command')],
+  ])('rejects a line no command matches %s', (_, edit) => {
+    const { editedCode, result } = roundTrip(IF_ELSE, edit);
+    const line = editedCode.split('\n').findIndex(text => text.includes('not a command'));
+    expect(result.graph).toBeNull();
+    expect(result.errors).toEqual([{ type: 'unparsed-line', line, message: 'No command matches this line.' }]);
+  });
+
+  it.each([
+    ['at the end of the then block', IF_ELSE, insertAfter('"yes 2"', 'not a command')],
+    ['at the start of the else block', IF_ELSE, insertInto('.else', 'not a command')],
+    ['at the end of a loop body', LOOP, insertAfter('"body 2"', 'not a command')],
+  ])('keeps a line no command matches %s as raw code', (_, source, edit) => {
+    const { editedCode, result, regenerated } = roundTrip(source, edit, true);
+    expect(result.errors).toEqual([]);
+    expect(regenerated).toBe(editedCode);
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Connection, Graph, NodeInstance } from '@/types';
+import { getUniqueId, generateNodeSockets } from '@/engine/nodeFactory';
+import { importParser } from '@/engine/importParser';
+import { SourceMapEntry } from '@/engine/codeGenerator';
+
+// Why a line of edited code can't be applied, on a 0-based line of the edited code.
+// Unparsed lines can still be kept as raw code; locked lines can't be edited at all.
+export interface CodeEditError {
+    type: 'unparsed-line' | 'locked-line';
+    line: number;
+    message: string;
+}
+
+// The graph with the edit applied, or null and the reasons it wasn't.
+export interface CodeEditResult {
+    graph: Graph | null;
+    errors: CodeEditError[];
+}
+
+// Lines `start` to `end` (inclusive) of the generated code.
+interface Span {
+    start: number;
+    end: number;
+}
+
+// Statements carry exec sockets; expression nodes only feed values into them.
+const isStatement = (node: NodeInstance) => node.sockets.inputs.some(s => s.name === 'exec_in');
+
+const getBlockSockets = (node: NodeInstance) =>
+  node.sockets.outputs.filter(s => s.type === 'exec' && s.name !== 'exec_out');
+
+// The ids of the exec chain hanging off a socket, following `exec_out` from node to node.
+const followChain = (graph: Graph, socketId: string): string[] => {
+  const ids: string[] = [];
+  let next = graph.connections.find(c => c.fromSocket === socketId)?.toNode;
+  while (next && !ids.includes(next)) {
+    ids.push(next);
+    const socket = `${next}-exec_out`;
+    next = graph.connections.find(c => c.fromSocket === socket)?.toNode;
+  }
+  return ids;
+};
+
+const getSpanSize = (span: Span) => span.end - span.start;
+
+// Whether lines close no block they don't open and open none they don't close.
+const isBalanced = (lines: string[]) => {
+  let depth = 0;
+  for (const line of lines) {
+    const text = line.trim();
+    if (text.startsWith('}') && --depth < 0) return false;
+    if (text.endsWith('{')) depth++;
+  }
+  return depth === 0;
+};
+
+// The first node of the exec chain a node is in.
+const getChainHead = (graph: Graph, id: string): string => {
+  const seen = new Set([id]);
+  let head = id;
+  let entry = graph.connections.find(c => c.toSocket === `${head}-exec_in`);
+  while (entry && !seen.has(entry.fromNode)) {
+    head = entry.fromNode;
+    seen.add(head);
+    entry = graph.connections.find(c => c.toSocket === `${head}-exec_in`);
+  }
+  return head;
+};
+
+export const codeSync = {
+  /**
+   * Applies an edit of the generated code to the graph it came from. Only the statements around the
+   * changed lines are parsed again. A statement that comes back with the same code keeps its node
+   * untouched, and one that comes back as the same command keeps its node's id and position with
+   * the new values; the others are removed or added. `sourceMap` maps the lines of `code`.
+   */
+  apply(graph: Graph, code: string, editedCode: string, sourceMap: SourceMapEntry[], definitions: any[], keepUnparsed: boolean = false): CodeEditResult {
+    if (code === editedCode) return { graph, errors: [] };
+    const oldLines = code.split('\n');
+    const newLines = editedCode.split('\n');
+
+    // The changed lines are `first` to `last` of the old code, and `first` to `last + delta` of the new.
+    const shorter = Math.min(oldLines.length, newLines.length);
+    let first = 0;
+    while (first < shorter && oldLines[first] === newLines[first]) first++;
+    let common = 0;
+    while (common < shorter - first && oldLines[oldLines.length - 1 - common] === newLines[newLines.length - 1 - common]) common++;
+    let last = oldLines.length - 1 - common;
+    const delta = newLines.length - oldLines.length;
+    const locked = (message: string): CodeEditResult => ({
+      graph: null,
+      errors: [{ type: 'locked-line', line: Math.min(first, newLines.length - 1), message }],
+    });
+
+    const nodeMap = new Map(graph.nodes.map(n => [n.id, n]));
+    // The lines of an expression node belong to the statement it is plugged into.
+    const getOwner = (nodeId: string, seen: Set<string> = new Set()): string | undefined => {
+      const node = nodeMap.get(nodeId);
+      if (!node || seen.has(nodeId)) return undefined;
+      if (isStatement(node)) return nodeId;
+      seen.add(nodeId);
+      const output = graph.connections.find(c => c.fromNode === nodeId);
+      return output && getOwner(output.toNode, seen);
+    };
+    const lineOwners: (string | undefined)[] = [];
+    const spans = new Map<string, Span>();
+    sourceMap.forEach(entry => {
+      const owner = getOwner(entry.nodeId);
+      if (!owner) return;
+      const span = spans.get(owner);
+      spans.set(owner, {
+        start: Math.min(span?.start ?? entry.startLine, entry.startLine),
+        end: Math.max(span?.end ?? entry.endLine, entry.endLine),
+      });
+      for (let line = entry.startLine; line <= entry.endLine; line++) lineOwners[line] = owner;
+    });
+    // A change that opens or closes blocks, like adding `} .else {` after a block, takes in the
+    // whole statement whose braces it touches, until the changed lines form whole blocks. The
+    // unchanged `}` the diff leaves out of the change is one of them.
+    while (!isBalanced(oldLines.slice(first, last + 1)) || !isBalanced(newLines.slice(first, last + delta + 1))) {
+      let enclosing: Span | null = null;
+      for (const span of spans.values()) {
+        const isAround = span.start <= Math.min(first, last) && span.end >= Math.max(first, last) && (span.start < first || span.end > last);
+        if (isAround && (!enclosing || getSpanSize(span) < getSpanSize(enclosing))) enclosing = span;
+      }
+      if (!enclosing) break;
+      first = enclosing.start;
+      last = Math.max(last, enclosing.end);
+    }
+
+    // Lines like frame comments and registry `def`s are generated from no node of the script.
+    const isGenerated = (line: number) => !lineOwners[line] && !!oldLines[line].trim();
+
+    // Generated lines between the changed ones must be left as they were, in the same order.
+    const keptGeneratedLines = new Set<number>();
+    let cursor = first;
+    for (let line = first; line <= last; line++) {
+      if (!isGenerated(line)) continue;
+      while (cursor <= last + delta && newLines[cursor] !== oldLines[line]) cursor++;
+      if (cursor > last + delta) return locked(`"${oldLines[line].trim()}" doesn't come from a node of this script, so it can't be changed here.`);
+      keptGeneratedLines.add(cursor++);
+    }
+
+    // Each statement's parent is the statement whose block it is in, or null at the top level.
+    const statementIds = [...spans.keys()].sort((a, b) => spans.get(a)!.start - spans.get(b)!.start);
+    const parents = new Map<string, string | null>();
+    statementIds.forEach(id => {
+      const span = spans.get(id)!;
+      let parent: string | null = null;
+      for (const other of statementIds) {
+        const outer = spans.get(other)!;
+        if (outer.start > span.start || outer.end < span.end || getSpanSize(outer) <= getSpanSize(span)) continue;
+        if (!parent || getSpanSize(outer) < getSpanSize(spans.get(parent)!)) parent = other;
+      }
+      parents.set(id, parent);
+    });
+    const getSiblings = (parent: string | null) => statementIds.filter(id => parents.get(id) === parent);
+    // The block socket a statement's chain hangs off, or null at the top level.
+    const getBlock = (id: string) => graph.connections.find(c => c.toSocket === `${getChainHead(graph, id)}-exec_in`)?.fromSocket ?? null;
+    const hasChangedLine = (id: string) => lineOwners.slice(first, last + 1).includes(id);
+
+    // The edit lies in a block of the innermost statement around it whose own lines are unchanged.
+    let level: string | null = null;
+    for (const id of statementIds) {
+      const span = spans.get(id)!;
+      if (span.start >= first || span.end <= last || hasChangedLine(id)) continue;
+      if (!level || getSpanSize(span) < getSpanSize(spans.get(level)!)) level = id;
+    }
+    // The statements of that block the edit touches. Lines edited between statements are parsed
+    // together with the statements on both sides, as long as they are in the same block; lines
+    // inserted into an empty block or at its edge, with its statement.
+    const siblings = getSiblings(level);
+    let run = siblings.filter(id => spans.get(id)!.end >= first && spans.get(id)!.start <= last);
+    if (run.length === 0) {
+      // The lines of the statement itself, like `} .else {`, separate its blocks.
+      const isAcrossBlocks = (from: number, to: number) => !!level && lineOwners.slice(from + 1, to).includes(level);
+      const before = siblings.filter(id => spans.get(id)!.end < first).pop();
+      const after = siblings.find(id => spans.get(id)!.start > last);
+      run = [
+        before && !isAcrossBlocks(spans.get(before)!.end, first) ? before : undefined,
+        after && !isAcrossBlocks(last, spans.get(after)!.start) ? after : undefined,
+      ].filter((id): id is string => !!id);
+    }
+    if (level && (run.length === 0 || new Set(run.map(id => getBlock(id))).size > 1)) {
+      run = [level];
+      level = parents.get(level) ?? null;
+    }
+
+    // The edited lines to parse again. Unchanged generated lines are left out, so they don't come back as nodes.
+    const regionStart = Math.min(first, ...run.map(id => spans.get(id)!.start));
+    const regionEnd = Math.max(last, ...run.map(id => spans.get(id)!.end)) + delta;
+    const region: number[] = [];
+    for (let line = regionStart; line <= regionEnd; line++) {
+      const oldLine = line < first ? line : line > last + delta ? line - delta : -1;
+      if (oldLine === -1 ? !keptGeneratedLines.has(line) : !isGenerated(oldLine)) region.push(line);
+    }
+    const imported = importParser.parseDetailed(region.map(line => newLines[line]).join('\n'), definitions);
+
+    const unparsed = imported.statements.filter(s => !s.parsed);
+    if (unparsed.length > 0 && !keepUnparsed) {
+      return {
+        graph: null,
+        errors: unparsed.flatMap(statement => region.slice(statement.startLine, statement.endLine + 1).map(line => ({
+          type: 'unparsed-line' as const,
+          line,
+          message: 'No command matches this line.',
+        }))),
+      };
+    }
+
+    const parsed = imported.graph;
+    const parsedMap = new Map(parsed.nodes.map(n => [n.id, n]));
+    const parsedStatements = new Map(imported.statements.map(s => [s.nodeId, s]));
+    // Indentation doesn't matter when comparing the code of a statement before and after.
+    const getOldCode = (id: string) => {
+      const { start, end } = spans.get(id)!;
+      const lines: string[] = [];
+      for (let line = start; line <= end; line++) if (!isGenerated(line)) lines.push(oldLines[line].trim());
+      return lines.join('\n');
+    };
+    const getNewCode = (id: string) => {
+      const { startLine, endLine } = parsedStatements.get(id)!;
+      return region.slice(startLine, endLine + 1).map(line => newLines[line].trim()).join('\n');
+    };
+
+    // The old node each parsed statement is matched to.
+    const matched = new Map<string, string>();
+    const keptIds = new Set<string>();
+    const updatedIds = new Set<string>();
+    const removedIds = new Set<string>();
+    // The sequences whose exec connections are rebuilt: where they hang off, the old chain, and the new chains.
+    const sequences: { from: { node: string; socket: string } | null; oldChain: string[]; newChains: string[][] }[] = [];
+
+    // Statements with the same code at the start and end of a sequence are kept. Those between
+    // are paired up in order while they are the same command, and their blocks matched in turn.
+    const matchSequence = (oldIds: string[], newIds: string[]) => {
+      const isSameCommand = (oldId: string, newId: string) => nodeMap.get(oldId)!.type === parsedMap.get(newId)!.type;
+      const isSameCode = (oldId: string, newId: string) => isSameCommand(oldId, newId) && getOldCode(oldId) === getNewCode(newId);
+      let head = 0;
+      while (head < Math.min(oldIds.length, newIds.length) && isSameCode(oldIds[head], newIds[head])) head++;
+      let tail = 0;
+      while (tail < Math.min(oldIds.length, newIds.length) - head
+        && isSameCode(oldIds[oldIds.length - 1 - tail], newIds[newIds.length - 1 - tail])) tail++;
+
+      const keep = (oldId: string, newId: string) => {
+        matched.set(newId, oldId);
+        keptIds.add(oldId);
+      };
+      for (let i = 0; i < head; i++) keep(oldIds[i], newIds[i]);
+      for (let i = 1; i <= tail; i++) keep(oldIds[oldIds.length - i], newIds[newIds.length - i]);
+
+      const newMiddle = newIds.slice(head, newIds.length - tail);
+      oldIds.slice(head, oldIds.length - tail).forEach((oldId, index) => {
+        const newId = newMiddle[index];
+        if (newId && isSameCommand(oldId, newId)) {
+          matched.set(newId, oldId);
+          updatedIds.add(oldId);
+          matchBlocks(oldId, newId);
+        } else {
+          removedIds.add(oldId);
+        }
+      });
+    };
+
+    const matchBlocks = (oldId: string, newId: string) => {
+      const newSockets = getBlockSockets(parsedMap.get(newId)!);
+      getBlockSockets(nodeMap.get(oldId)!).forEach(socket => {
+        if (!newSockets.some(s => s.name === socket.name)) followChain(graph, socket.id).forEach(id => removedIds.add(id));
+      });
+      newSockets.forEach(socket => {
+        const oldChain = followChain(graph, `${oldId}-${socket.name}`);
+        const newChain = followChain(parsed, socket.id);
+        sequences.push({ from: { node: oldId, socket: `${oldId}-${socket.name}` }, oldChain, newChains: [newChain] });
+        matchSequence(oldChain.filter(id => spans.has(id)), newChain);
+      });
+    };
+
+    // At the top level, statements split by a blank line form chains of their own; inside a block they are one chain.
+    const parsedChains = parsed.nodes
+      .filter(n => !parsed.connections.some(c => c.toNode === n.id))
+      .map(n => [n.id, ...followChain(parsed, `${n.id}-exec_out`)]);
+    const nextOf = (id: string) => graph.connections.find(c => c.fromSocket === `${id}-exec_out`)?.toNode;
+    // Nodes without code, like hidden ones, between the statements of the run stay in the chain.
+    const runChain = run.flatMap((id, index) => {
+      const chain = [id];
+      let next = nextOf(id);
+      while (index < run.length - 1 && next && !spans.has(next) && !chain.includes(next)) {
+        chain.push(next);
+        next = nextOf(next);
+      }
+      return chain;
+    });
+    sequences.push({ from: null, oldChain: runChain, newChains: level ? [parsedChains.flat()] : parsedChains });
+    matchSequence(run, parsedChains.flat());
+
+    // Removed statements take the chains of their blocks along, and then the expression nodes
+    // that fed only removed or updated nodes go too. Updated nodes take their values from the code.
+    const removeBlocks = (id: string) => {
+      getBlockSockets(nodeMap.get(id)!).forEach(socket => followChain(graph, socket.id).forEach(childId => {
+        if (removedIds.has(childId)) return;
+        removedIds.add(childId);
+        removeBlocks(childId);
+      }));
+    };
+    [...removedIds].forEach(removeBlocks);
+    for (const id of [...updatedIds, ...removedIds]) {
+      const node = nodeMap.get(id)!;
+      if (node.definition.subgraphId) return locked(`"${node.displayName}" is a subgraph. Open it to edit its code.`);
+      if (node.definition.unresolved) return locked(`"${node.displayName}" has an unknown type, so its code can't be edited.`);
+    }
+    let removedFeeder = true;
+    while (removedFeeder) {
+      removedFeeder = false;
+      graph.nodes.forEach(node => {
+        if (removedIds.has(node.id) || isStatement(node)) return;
+        const outputs = graph.connections.filter(c => c.fromNode === node.id);
+        if (outputs.length > 0 && outputs.every(c => removedIds.has(c.toNode) || updatedIds.has(c.toNode))) {
+          removedIds.add(node.id);
+          removedFeeder = true;
+        }
+      });
+    }
+
+    // Parsed statements inside a kept statement are dropped; the old ones stay.
+    const droppedIds = new Set<string>();
+    const dropBlocks = (id: string) => {
+      getBlockSockets(parsedMap.get(id)!).forEach(socket => followChain(parsed, socket.id).forEach(childId => {
+        droppedIds.add(childId);
+        dropBlocks(childId);
+      }));
+    };
+    matched.forEach((oldId, newId) => { if (keptIds.has(oldId)) dropBlocks(newId); });
+    const addedNodes = parsed.nodes.filter(n => !matched.has(n.id) && !droppedIds.has(n.id));
+    const addedIds = new Set(addedNodes.map(n => n.id));
+
+    // The exec connections of the rebuilt sequences are replaced, from where each hangs off to its end.
+    const entrySocket = run.length > 0 ? `${run[0]}-exec_in` : null;
+    const entries = graph.connections.filter(c => c.toSocket === entrySocket);
+    const exit = run.length > 0 ? graph.connections.find(c => c.fromSocket === `${run[run.length - 1]}-exec_out`) : undefined;
+    const rebuiltSockets = new Set<string>();
+    sequences.forEach(({ from, oldChain }) => {
+      if (from) rebuiltSockets.add(from.socket);
+      oldChain.forEach(id => rebuiltSockets.add(`${id}-exec_out`));
+    });
+    const sequencedIds = new Set(sequences.flatMap(s => s.newChains.flat()));
+
+    const connections: Connection[] = [
+      ...graph.connections.filter(c =>
+        !removedIds.has(c.fromNode) && !removedIds.has(c.toNode)
+        && !rebuiltSockets.has(c.fromSocket) && c.toSocket !== entrySocket
+        && !(updatedIds.has(c.toNode) && c.toSocket !== `${c.toNode}-exec_in`)),
+      // The blocks of added statements come as parsed.
+      ...parsed.connections.filter(c =>
+        addedIds.has(c.fromNode) && addedIds.has(c.toNode)
+        && !(sequencedIds.has(c.fromNode) && c.fromSocket === `${c.fromNode}-exec_out`)),
+    ];
+    const link = (fromNode: string, fromSocket: string, toNode: string) => {
+      const toSocket = `${toNode}-exec_in`;
+      const previous = graph.connections.find(c => c.fromSocket === fromSocket && c.toSocket === toSocket);
+      connections.push(previous ?? { id: getUniqueId('edge'), fromNode, fromSocket, toNode, toSocket });
+    };
+
+    const matchedOldIds = new Set(matched.values());
+    // The chains the edited run became, in the order they were written.
+    let runChains: string[][] = [];
+    sequences.forEach(({ from, oldChain, newChains }) => {
+      // Nodes without code follow the statement they followed before, or lead the sequence.
+      const following = new Map<string, string[]>();
+      let previous = '';
+      oldChain.forEach(id => {
+        if (spans.has(id)) {
+          if (matchedOldIds.has(id)) previous = id;
+        } else if (!removedIds.has(id)) {
+          following.set(previous, [...(following.get(previous) || []), id]);
+        }
+      });
+      const chains = newChains.map(chain => chain.flatMap(newId => {
+        const oldId = matched.get(newId);
+        return oldId ? [oldId, ...(following.get(oldId) || [])] : [newId];
+      }));
+      if (chains.length === 0) chains.push([]);
+      chains[0].unshift(...(following.get('') || []));
+
+      chains.forEach(chain => chain.slice(1).forEach((id, index) => link(chain[index], `${chain[index]}-exec_out`, id)));
+      const head = chains[0][0];
+      const tail = chains[chains.length - 1][chains[chains.length - 1].length - 1];
+      if (from) {
+        if (head) link(from.node, from.socket, head);
+        return;
+      }
+      runChains = chains;
+      // When the whole run is deleted, what came before it is connected to what came after.
+      const target = head ?? exit?.toNode;
+      if (target) entries.forEach(entry => link(entry.fromNode, entry.fromSocket, target));
+      if (tail && exit) link(tail, `${tail}-exec_out`, exit.toNode);
+    });
+
+    // Added nodes are laid out as parsed, from where the first edited statement was.
+    const anchor = run.length > 0
+      ? nodeMap.get(run[0])!.position
+      : { x: 100, y: Math.max(0, ...graph.nodes.map(n => n.position.y)) + 250 };
+    const origin = addedNodes.reduce((min, n) => ({ x: Math.min(min.x, n.position.x), y: Math.min(min.y, n.position.y) }), { x: Infinity, y: Infinity });
+
+    const newIds = new Map([...matched].map(([newId, oldId]) => [oldId, newId]));
+    let nodes = [
+      ...graph.nodes.filter(n => !removedIds.has(n.id)).map(node => {
+        if (!updatedIds.has(node.id)) return node;
+        const updated = { ...node, values: parsedMap.get(newIds.get(node.id)!)!.values };
+        updated.sockets = generateNodeSockets(updated);
+        return updated;
+      }),
+      ...addedNodes.map(node => ({
+        ...node,
+        position: { x: node.position.x - origin.x + anchor.x, y: node.position.y - origin.y + anchor.y },
+      })),
+    ];
+
+    // Top-level chains are generated in the order of their first nodes, so the chains of the run
+    // take the place of the chain it started in.
+    if (!level) {
+      const runHead = run.length > 0 ? getChainHead(graph, run[0]) : null;
+      const place = runHead ? graph.nodes.findIndex(n => n.id === runHead) : graph.nodes.length;
+      // The chain's first node stays in front when the run started further down the chain.
+      const runIds = runChains.flat();
+      const keepsHead = !!runHead && !removedIds.has(runHead) && !runIds.includes(runHead);
+      const grouped = new Set([...(keepsHead ? [runHead] : []), ...runIds]);
+      const oldIndex = new Map(graph.nodes.map((n, index) => [n.id, index]));
+      const nodeById = new Map(nodes.map(n => [n.id, n]));
+      const isBefore = (node: NodeInstance) => (oldIndex.get(node.id) ?? Infinity) < place;
+      nodes = [
+        ...nodes.filter(n => !grouped.has(n.id) && isBefore(n)),
+        ...[...grouped].flatMap(id => nodeById.get(id) ?? []),
+        ...nodes.filter(n => !grouped.has(n.id) && !isBefore(n)),
+      ];
+    }
+    return { graph: { ...graph, nodes, connections }, errors: [] };
+  },
+};
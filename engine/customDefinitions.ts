@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createDefinitionsFromFile } from '@/engine/definitionLoader';
+
+// A definition file added by the user, in the same format as the files in data/.
+export interface DefinitionFile {
+    name: string;
+    commands: any[];
+}
+
+export interface DefinitionConflict {
+    file: string;
+    type: string;
+}
+
+const STORAGE_KEY = 'tpc-node-editor/definition-files';
+
+// Definitions from user files get source paths under this folder, outside of DATA_FILES.
+export const CUSTOM_DEFINITIONS_PATH = 'custom';
+
+const isDefinitionFile = (file: any): file is DefinitionFile =>
+    !!file && typeof file.name === 'string' && Array.isArray(file.commands);
+
+export const customDefinitions = {
+  // Files saved by earlier sessions. Unreadable storage is treated as empty.
+  loadStored(): DefinitionFile[] {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(parsed) ? parsed.filter(isDefinitionFile) : [];
+    } catch (e) {
+      console.error('Failed to read stored definition files', e);
+      return [];
+    }
+  },
+
+  // Throws when the browser refuses to store the files, e.g. because they are too large.
+  store(files: DefinitionFile[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(files));
+  },
+
+  parse(name: string, text: string): DefinitionFile {
+    let commands: unknown;
+    try {
+      commands = JSON.parse(text);
+    } catch {
+      throw new Error(`${name} is not valid JSON.`);
+    }
+    if (!Array.isArray(commands) || commands.some(cmd => !cmd || typeof cmd !== 'object')) {
+      throw new Error(`${name} is not a definition file: expected an array of commands.`);
+    }
+    return { name, commands };
+  },
+
+  /**
+   * Creates the node definitions of the given files. Types already in `seenTypes` (the
+   * built-in definitions and earlier files) are left out and reported as conflicts.
+   */
+  register(files: DefinitionFile[], seenTypes: Set<string>): { definitions: any[]; conflicts: DefinitionConflict[] } {
+    const types = new Set(seenTypes);
+    const definitions: any[] = [];
+    const conflicts: DefinitionConflict[] = [];
+    files.forEach(file => {
+      const filePath = `${CUSTOM_DEFINITIONS_PATH}/${file.name}`;
+      definitions.push(...createDefinitionsFromFile(file.commands, filePath, types, type => conflicts.push({ file: file.name, type })));
+    });
+    return { definitions, conflicts };
+  },
+};
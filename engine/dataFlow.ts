@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Graph, NodeInstance, Connection } from '@/types';
+import { subgraphManager } from './subgraphs';
+import { expressions, EXPRESSION_RESULT_KEY, ExpressionOperand } from './expressions';
+
+// The node that runs a piece of JavaScript and exposes the result on its output socket.
+export const JS_NODE_COMMAND = 'Evaluate JS Code';
+
+// The code and named variables an "Evaluate JS Code" node runs with.
+export interface JsNodeInputs {
+    code: string;
+    variables: Record<string, any>;
+    // The value key the evaluated result is stored under.
+    resultKey: string;
+}
+
+export interface DataFlowEvaluator {
+    /**
+     * The value of a node's field as it will be generated: followed back through connected
+     * sockets (passing through Raw Code and other pass-through fields) to the value at the start
+     * of the chain, the result of an "Evaluate JS Code" node, or the text an expression node composes.
+     * A loop of connections is undefined.
+     */
+    getValue(nodeId: string, valueKey: string): any;
+    getJsInputs(nodeId: string): JsNodeInputs | null;
+}
+
+const isJsNode = (node: NodeInstance) => node.definition.nodeDef.command === JS_NODE_COMMAND;
+
+const toNumberIfNumeric = (value: any) =>
+    !isNaN(parseFloat(value)) && isFinite(value) ? parseFloat(value) : value;
+
+const evaluators = new WeakMap<Graph, DataFlowEvaluator>();
+
+export const dataFlow = {
+  /**
+   * Creates an evaluator for the given graph, which must already be flattened (see
+   * `subgraphManager.flatten`). `onCycle` is told about every loop of data connections met,
+   * with the ids of the nodes along it.
+   */
+  createEvaluator(graph: Graph, onCycle?: (nodeIds: string[]) => void): DataFlowEvaluator {
+    const nodeMap = new Map(graph.nodes.map(n => [n.id, n]));
+    const connectionsTo = new Map<string, Connection>();
+    graph.connections.forEach(c => connectionsTo.set(c.toSocket, c));
+    const cache = new Map<string, any>();
+
+    // `resolving` holds the sockets on the current resolution path, so a loop is reported
+    // instead of recursing forever.
+    const resolve = (node: NodeInstance, valueKey: string, resolving: { nodeId: string; socketId: string }[]): any => {
+        const socketId = `${node.id}-${valueKey}`;
+        if (cache.has(socketId)) return cache.get(socketId);
+        const loopStart = resolving.findIndex(r => r.socketId === socketId);
+        if (loopStart !== -1) {
+            onCycle?.(resolving.slice(loopStart).map(r => r.nodeId));
+            return undefined;
+        }
+
+        const path = [...resolving, { nodeId: node.id, socketId }];
+        let value = node.values[valueKey];
+        const connection = connectionsTo.get(socketId);
+        const sourceNode = connection && nodeMap.get(connection.fromNode);
+        if (valueKey === EXPRESSION_RESULT_KEY && expressions.isExpressionNode(node)) {
+            value = expressions.compose(node, operandKey => getOperand(node, operandKey, path));
+        } else if (connection && sourceNode) {
+            const sourceKey = connection.fromSocket.replace(`${connection.fromNode}-`, '');
+            // The result of a JS node is stored next to its code field, with a `_result` suffix.
+            value = isJsNode(sourceNode)
+                ? sourceNode.values[`${sourceKey}_result`]
+                : resolve(sourceNode, sourceKey, path);
+        }
+        cache.set(socketId, value);
+        return value;
+    };
+
+    const getOperand = (node: NodeInstance, valueKey: string, resolving: { nodeId: string; socketId: string }[]): ExpressionOperand => {
+        const value = resolve(node, valueKey, resolving);
+        const connection = connectionsTo.get(`${node.id}-${valueKey}`);
+        const sourceNode = connection && nodeMap.get(connection.fromNode);
+        const isFromExpression = !!sourceNode && expressions.isExpressionNode(sourceNode);
+        return {
+            text: value === undefined || value === null ? '' : String(value),
+            precedence: isFromExpression ? expressions.getPrecedence(sourceNode) : undefined,
+            operator: isFromExpression ? expressions.getOperator(sourceNode) : undefined,
+            isTyped: !connection,
+        };
+    };
+
+    const getValue = (nodeId: string, valueKey: string) => {
+        const node = nodeMap.get(nodeId);
+        return node ? resolve(node, valueKey, []) : undefined;
+    };
+
+    return {
+      getValue,
+
+      getJsInputs(nodeId: string): JsNodeInputs | null {
+        const node = nodeMap.get(nodeId);
+        if (!node || !isJsNode(node)) return null;
+        const args: any[] = node.definition.nodeDef.arguments;
+        const codeArgIndex = args.findIndex(a => a.type === 'JSCode');
+        if (codeArgIndex === -1) return null;
+        const codeKey = `${codeArgIndex}_${args[codeArgIndex].name}`;
+
+        const variables: Record<string, any> = {};
+        const varGroupArgIndex = args.findIndex(a => a.name === 'variable');
+        if (varGroupArgIndex !== -1) {
+          const varGroupKey = `${varGroupArgIndex}_${args[varGroupArgIndex].name}`;
+          const varCount = getValue(nodeId, `${varGroupKey}_count`) || 0;
+          for (let i = 0; i < varCount; i++) {
+            const varName = getValue(nodeId, `${varGroupKey}_${i}_0_name`);
+            if (varName) variables[varName] = toNumberIfNumeric(getValue(nodeId, `${varGroupKey}_${i}_1_value`));
+          }
+        }
+
+        const code = getValue(nodeId, codeKey);
+        return { code: code === undefined || code === null ? '' : String(code), variables, resultKey: `${codeKey}_result` };
+      },
+    };
+  },
+
+  /**
+   * The evaluator for a graph revision, as shown in the editor. Graphs are never changed in
+   * place, so it is created once per revision. Subgraph nodes are looked through.
+   */
+  forGraph(graph: Graph): DataFlowEvaluator {
+    let evaluator = evaluators.get(graph);
+    if (!evaluator) {
+      evaluator = dataFlow.createEvaluator(subgraphManager.flatten(graph).graph);
+      evaluators.set(graph, evaluator);
+    }
+    return evaluator;
+  },
+
+  // Runs a JSCode field of a regular command, whose result is pasted into the generated code.
+  evaluateInlineJs(code: string): string {
+    try {
+      const result = new Function(`return ${code}`)();
+      return String(result ?? '');
+    } catch (e) {
+      console.error("JS evaluation error:", e);
+      return `/* Error evaluating JS: ${(e as Error).message.replace(/\s/g, ' ')} */`;
+    }
+  },
+
+  // Runs the code of an "Evaluate JS Code" node, which may `await`, with its variables in scope.
+  async evaluateJsNode({ code, variables }: JsNodeInputs): Promise<string> {
+    if (code.trim() === '') return '';
+    try {
+      const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+      const evaluator = new AsyncFunction(...Object.keys(variables), `return ${code}`);
+      const result = await evaluator(...Object.values(variables));
+      return String(result ?? '');
+    } catch (e) {
+      return `/* Error: ${(e as Error).message.replace(/\s/g, ' ')} */`;
+    }
+  },
+};
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { nodeFactory } from '@/engine/nodeFactory';
+
+// Builds the short, human-readable signature shown in the node library.
+export const generateSignature = (cmd: any): string => {
+    let signature = cmd.base || cmd.command || '';
+    if (cmd.array_parameter) {
+        signature += '[...]';
+    }
+    if (cmd.subcommand) {
+        signature += cmd.subcommand;
+    }
+
+    const generateArgsSignature = (args: any[]): string => {
+        let argsSig = '';
+        if (!args) return argsSig;
+
+        for (const arg of args) {
+            if (arg.optional) break;
+
+            if (arg.type === 'keyword' || arg.type === 'assignment') {
+                argsSig += ` ${arg.value}`;
+            } else if (arg.type === 'Condition') {
+                argsSig += ' (Condition)';
+                break;
+            } else if (arg.type === 'group') {
+                if (arg.content) {
+                    argsSig += ` ${generateArgsSignature(arg.content)}`;
+                }
+                break; 
+            } else if (arg.type === 'base') {
+                argsSig += ` ${arg.name}`;
+                if (arg.array_parameter) argsSig += '[...]';
+            }
+            else {
+                break;
+            }
+        }
+        return argsSig.trim();
+    };
+
+    const argsSignature = generateArgsSignature(cmd.arguments);
+    if (argsSignature) {
+        signature += ` ${argsSignature}`;
+    }
+    
+    return signature;
+};
+
+// Turns the commands of one definition file into node definitions. Commands marked as
+// unclear are skipped, and so are types already in `seenTypes`, so the first file wins;
+// `onDuplicate` is told about each type skipped that way.
+export const createDefinitionsFromFile = (commands: any, filePath: string, seenTypes: Set<string>, onDuplicate?: (type: string) => void): any[] => {
+    if (!Array.isArray(commands)) return [];
+
+    const definitions: any[] = [];
+    commands.forEach((cmd, i) => {
+        if (cmd.status === 'unclear') return;
+
+        const type = cmd.template || `${cmd.command || cmd.base || 'unnamed'}_${filePath}_${i}`;
+
+        if (seenTypes.has(type)) {
+            onDuplicate?.(type);
+            return;
+        }
+        seenTypes.add(type);
+
+        const displayName = cmd.command || cmd.base || 'Unnamed';
+        const signature = generateSignature(cmd);
+        const definition = nodeFactory.createNodeDefinition(cmd, type);
+
+        definitions.push({
+            ...definition,
+            sourceFile: filePath,
+            type,
+            displayName,
+            signature
+        });
+    });
+    return definitions;
+};
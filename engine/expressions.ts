@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { NodeInstance } from '@/types';
+import { argumentWalker } from './argumentWalker';
+
+// The output socket an expression node offers its composed text on.
+export const EXPRESSION_RESULT_KEY = 'result';
+
+// One input of an expression node, as resolved through the data flow.
+export interface ExpressionOperand {
+    text: string;
+    // The precedence of the expression node the text came from, when it came from one.
+    precedence?: number;
+    // The binary operator of the expression node the text came from, when it has one.
+    operator?: string;
+    // Whether the text was typed into the field rather than received over a connection.
+    isTyped: boolean;
+}
+
+// Loosest binding first. Operators of the same precedence associate to the left.
+const BINARY_PRECEDENCE: Record<string, number> = {
+    '||': 1,
+    '&&': 2,
+    '==': 3, '!=': 3,
+    '<': 4, '<=': 4, '>': 4, '>=': 4,
+    '+': 5, '-': 5,
+    '*': 6, '/': 6, '%': 6,
+};
+// Operators where `a op (b op c)` means the same as `(a op b) op c`. Only the operator itself
+// can drop the parentheses: `a * (b % c)` is not `a * b % c`.
+const ASSOCIATIVE = new Set(['||', '&&', '+', '*']);
+const UNARY_PRECEDENCE = 7;
+const ATOM_PRECEDENCE = 8;
+// Typed text that isn't a single number, name, quoted string or `x[...]` reference.
+const LOWEST_PRECEDENCE = 0;
+
+const ATOM_PATTERN = /^(\d+(\.\d+)?|[A-Za-z_]\w*(\[[^\[\]]*\])?|"[^"]*"|\([^()]*\))$/;
+
+const precedenceOf = (operand: ExpressionOperand) => {
+    if (operand.precedence !== undefined) return operand.precedence;
+    const text = operand.text.trim();
+    return text === '' || ATOM_PATTERN.test(text) ? ATOM_PRECEDENCE : LOWEST_PRECEDENCE;
+};
+
+const wrap = (operand: ExpressionOperand, needsParens: (precedence: number) => boolean) => {
+    const text = operand.text.trim();
+    return needsParens(precedenceOf(operand)) ? `(${text})` : text;
+};
+
+export const expressions = {
+  isExpressionNode(node: NodeInstance): boolean {
+    return !!node.definition.nodeDef?.expression;
+  },
+
+  // The operator of a binary expression node, which decides whether it needs parentheses on the right.
+  getOperator(node: NodeInstance): string | undefined {
+    const { kind, operator } = node.definition.nodeDef.expression;
+    return kind === 'binary' ? operator : undefined;
+  },
+
+  // How tightly the text composed by an expression node binds.
+  getPrecedence(node: NodeInstance): number {
+    const { kind, operator } = node.definition.nodeDef.expression;
+    if (kind === 'binary') return BINARY_PRECEDENCE[operator] ?? LOWEST_PRECEDENCE;
+    if (kind === 'join') return BINARY_PRECEDENCE['+'];
+    if (kind === 'unary') return UNARY_PRECEDENCE;
+    return ATOM_PRECEDENCE;
+  },
+
+  /**
+   * Composes the TPC expression text of an expression node from its inputs, adding parentheses
+   * only where an operand binds more loosely than the operator around it. Typed text of a String
+   * field is quoted; connected values are used as they are.
+   */
+  compose(node: NodeInstance, getOperand: (valueKey: string) => ExpressionOperand): string {
+    const operands = argumentWalker<ExpressionOperand[]>(node, {
+      onPrimitive: ({ arg, key }) => {
+        const operand = getOperand(key);
+        if (operand.isTyped && arg.type === 'String') {
+          return [{ text: `"${operand.text}"`, precedence: ATOM_PRECEDENCE, isTyped: true }];
+        }
+        return [operand];
+      },
+      onRepeatable: (_, items) => items.flat(),
+    }).flat();
+
+    const { kind, operator, prefix } = node.definition.nodeDef.expression;
+    const precedence = expressions.getPrecedence(node);
+    const wrapRight = (operand: ExpressionOperand) => {
+      const isSameAssociative = ASSOCIATIVE.has(operator) && operand.operator === operator;
+      return wrap(operand, p => isSameAssociative ? p < precedence : p <= precedence);
+    };
+    switch (kind) {
+      case 'binary': {
+        const [left, right] = operands;
+        if (!left || !right) return '';
+        return `${wrap(left, p => p < precedence)} ${operator} ${wrapRight(right)}`;
+      }
+      case 'join':
+        return operands.map((part, i) => i === 0 ? wrap(part, p => p < precedence) : wrapRight(part)).join(` ${operator} `);
+      case 'unary':
+        // `-(-x)` and `!(!x)`, rather than `--x`.
+        return operands[0] ? `${operator}${wrap(operands[0], p => p <= precedence)}` : '';
+      case 'reference':
+        return operands[0] ? `${prefix}[${operands[0].text.trim()}]` : '';
+      default:
+        return operands[0]?.text.trim() ?? '';
+    }
+  },
+};
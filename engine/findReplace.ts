@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { NodeInstance } from '@/types';
+import { argumentWalker } from '@/engine/argumentWalker';
+
+export interface FindOptions {
+    query: string;
+    regex: boolean;
+    wholeWord: boolean;
+    matchCase: boolean;
+    // Only the values of arguments of this type, e.g. `Variable`. Null also searches names and types.
+    argumentType: string | null;
+}
+
+export interface FindMatch {
+    nodeId: string;
+    field: 'value' | 'displayName' | 'type';
+    // The value key and the type of its argument, for matches in a value.
+    key: string | null;
+    argumentType: string | null;
+    text: string;
+    // Where the query matched in `text`, as [start, end) pairs.
+    ranges: [number, number][];
+}
+
+// A new value for one field of a node, as the node UI would commit it.
+export interface ValueChange {
+    nodeId: string;
+    key: string;
+    value: string | number;
+}
+
+// The argument type of each value key the node shows.
+const getArgumentTypes = (node: NodeInstance): Map<string, string> => {
+  const types = new Map<string, string>();
+  // The walker only descends into composite arguments that have a handler.
+  const descend = () => null;
+  argumentWalker<null>(node, {
+    onPrimitive: ({ arg, key }) => {
+      types.set(key, arg.type);
+      return null;
+    },
+    onRepeatable: descend,
+    onChoice: descend,
+    onBlock: descend,
+    onSubcommand: descend,
+    onGroup: descend,
+    onArray: descend,
+    onBase: descend,
+  });
+  return types;
+};
+
+const isText = (value: any): value is string | number => typeof value === 'string' || typeof value === 'number';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const findReplace = {
+  // The pattern for the options, or the reason the query isn't a valid regular expression.
+  createPattern(options: FindOptions): { pattern: RegExp | null; error: string | null } {
+    if (!options.query) return { pattern: null, error: null };
+    const source = options.regex ? options.query : escapeRegExp(options.query);
+    try {
+      // Word characters can't touch the match, so `v[1]` doesn't find `v[12]` and `10` doesn't find `100`.
+      const bounded = options.wholeWord ? `(?<!\\w)(?:${source})(?!\\w)` : source;
+      return { pattern: new RegExp(bounded, options.matchCase ? 'g' : 'gi'), error: null };
+    } catch (error) {
+      return { pattern: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  },
+
+  // The argument types the nodes have values for, to scope a search by.
+  listArgumentTypes(nodes: NodeInstance[]): string[] {
+    const types = new Set<string>();
+    nodes.forEach(node => getArgumentTypes(node).forEach(type => types.add(type)));
+    return [...types].sort();
+  },
+
+  /**
+   * Searches the values of the nodes, and unless the search is scoped to an argument type, their
+   * display names and types too. Only the values of primitive arguments are searched; choice
+   * selections, keywords and repeatable counts are bookkeeping the user doesn't type.
+   */
+  find(nodes: NodeInstance[], options: FindOptions): FindMatch[] {
+    const { pattern } = findReplace.createPattern(options);
+    if (!pattern) return [];
+    const getRanges = (text: string): [number, number][] =>
+      [...text.matchAll(pattern)].filter(m => m[0].length > 0).map(m => [m.index!, m.index! + m[0].length]);
+
+    const matches: FindMatch[] = [];
+    nodes.forEach(node => {
+      const add = (field: FindMatch['field'], key: string | null, argumentType: string | null, text: string) => {
+        const ranges = getRanges(text);
+        if (ranges.length > 0) matches.push({ nodeId: node.id, field, key, argumentType, text, ranges });
+      };
+      if (!options.argumentType) {
+        add('displayName', null, null, node.displayName);
+        add('type', null, null, node.type);
+      }
+      getArgumentTypes(node).forEach((argumentType, key) => {
+        const value = node.values[key];
+        if (!isText(value)) return;
+        if (options.argumentType && argumentType !== options.argumentType) return;
+        add('value', key, argumentType, String(value));
+      });
+    });
+    return matches;
+  },
+
+  // Replaces every occurrence in `text`. Regular expressions can refer to their groups as `$1`.
+  replaceText(text: string, options: FindOptions, replacement: string): string {
+    const { pattern } = findReplace.createPattern(options);
+    if (!pattern) return text;
+    return options.regex ? text.replace(pattern, replacement) : text.replace(pattern, () => replacement);
+  },
+
+  // The value changes that replace every value match. Numbers stay numbers while the result is one.
+  replaceAll(nodes: NodeInstance[], matches: FindMatch[], options: FindOptions, replacement: string): ValueChange[] {
+    const nodeMap = new Map(nodes.map(n => [n.id, n]));
+    return matches.flatMap(match => {
+      const node = nodeMap.get(match.nodeId);
+      if (match.field !== 'value' || !match.key || !node) return [];
+      const previous = node.values[match.key];
+      const text = findReplace.replaceText(String(previous), options, replacement);
+      if (text === String(previous)) return [];
+      const value = typeof previous === 'number' && text.trim() !== '' && Number.isFinite(Number(text)) ? Number(text) : text;
+      return [{ nodeId: node.id, key: match.key, value }];
+    });
+  },
+};
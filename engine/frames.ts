@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Frame, NodeInstance, Position } from '@/types';
+import { getUniqueId } from '@/engine/nodeFactory';
+
+export const frameManager = {
+  create(position: Position, size: Frame['size'], color: string, title: string = 'Comment'): Frame {
+    return {
+      id: getUniqueId('frame'),
+      title,
+      body: '',
+      color,
+      position,
+      size,
+      emitComment: false,
+    };
+  },
+
+  encloses(frame: Frame, node: Pick<NodeInstance, 'position'>): boolean {
+    const { x, y } = node.position;
+    return x >= frame.position.x && x <= frame.position.x + frame.size.width &&
+      y >= frame.position.y && y <= frame.position.y + frame.size.height;
+  },
+
+  getMembers<T extends Pick<NodeInstance, 'id' | 'position'>>(frame: Frame, nodes: T[]): T[] {
+    return nodes.filter(n => frameManager.encloses(frame, n));
+  },
+};
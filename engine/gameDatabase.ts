@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The kinds of database entries a Numeric field can refer to, marked with `entity` in the definitions.
+export type EntityKind = 'actor' | 'class' | 'skill' | 'item' | 'state' | 'troop' | 'animation' | 'commonEvent' | 'map';
+
+// The names of the entries of each kind, by ID.
+export type GameDatabase = Partial<Record<EntityKind, Record<number, string>>>;
+
+// Where each kind is found in the XML written by EasyRPG's lcf2xml: the list element and the
+// element of each entry. Maps come from the map tree (.emt), everything else from the database (.edb).
+export const ENTITY_KINDS: Record<EntityKind, { label: string; list: string; element: string }> = {
+  actor: { label: 'Actors', list: 'actors', element: 'Actor' },
+  class: { label: 'Classes', list: 'classes', element: 'Class' },
+  skill: { label: 'Skills', list: 'skills', element: 'Skill' },
+  item: { label: 'Items', list: 'items', element: 'Item' },
+  state: { label: 'States', list: 'states', element: 'State' },
+  troop: { label: 'Troops', list: 'troops', element: 'Troop' },
+  animation: { label: 'Animations', list: 'animations', element: 'Animation' },
+  commonEvent: { label: 'Common Events', list: 'commonevents', element: 'CommonEvent' },
+  map: { label: 'Maps', list: 'maps', element: 'MapInfo' },
+};
+
+const STORAGE_KEY = 'tpc-node-editor/game-database';
+
+export const gameDatabase = {
+  // Names imported by earlier sessions. Unreadable storage is treated as empty.
+  loadStored(): GameDatabase {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (e) {
+      console.error('Failed to read the stored game database', e);
+      return {};
+    }
+  },
+
+  // Throws when the browser refuses to store the names, e.g. because they are too large.
+  store(database: GameDatabase) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(database));
+  },
+
+  /**
+   * Reads the entry names from a database (.edb) or map tree (.emt) file exported by lcf2xml.
+   * Only the kinds the file contains are returned. Throws for anything else.
+   */
+  parse(name: string, text: string): GameDatabase {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    const root = doc.documentElement?.tagName;
+    if (doc.getElementsByTagName('parsererror').length > 0 || (root !== 'LDB' && root !== 'LMT')) {
+      throw new Error(`${name} is not a database or map tree exported by lcf2xml.`);
+    }
+
+    const database: GameDatabase = {};
+    (Object.keys(ENTITY_KINDS) as EntityKind[]).forEach(kind => {
+      const { list, element } = ENTITY_KINDS[kind];
+      const listElement = doc.getElementsByTagName(list)[0];
+      if (!listElement) return;
+      const names: Record<number, string> = {};
+      Array.from(listElement.children).forEach(entry => {
+        const id = parseInt(entry.getAttribute('id') || '', 10);
+        if (entry.tagName !== element || isNaN(id)) return;
+        const nameElement = Array.from(entry.children).find(child => child.tagName === 'name');
+        names[id] = nameElement?.textContent ?? '';
+      });
+      database[kind] = names;
+    });
+    return database;
+  },
+
+  // The names of `imported` replace those of the same kinds in `database`.
+  merge(database: GameDatabase, imported: GameDatabase): GameDatabase {
+    return { ...database, ...imported };
+  },
+
+  // The entries of a kind that have a name, by ascending ID. The map tree's root (ID 0) is left out.
+  getEntries(database: GameDatabase, kind: EntityKind): { id: number; name: string }[] {
+    return Object.entries(database[kind] || {})
+      .map(([id, name]) => ({ id: Number(id), name }))
+      .filter(e => e.id > 0 && e.name !== '')
+      .sort((a, b) => a.id - b.id);
+  },
+
+  getName(database: GameDatabase, kind: EntityKind, value: any): string | undefined {
+    const id = Number(String(value ?? '').trim());
+    return Number.isInteger(id) && id > 0 ? database[kind]?.[id] || undefined : undefined;
+  },
+};
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Graph } from '@/types';
+
+export type GraphUpdate = Graph | ((graph: Graph) => Graph);
+
+export interface HistoryEntry {
+    label: string;
+    graph: Graph;
+    // Consecutive commits with the same key are merged into one entry (e.g. typing into one field).
+    coalesceKey?: string;
+    timestamp: number;
+}
+
+export interface GraphHistory {
+    entries: HistoryEntry[];
+    index: number;
+}
+
+const MAX_ENTRIES = 100;
+const COALESCE_WINDOW_MS = 1500;
+
+const applyUpdate = (update: GraphUpdate, graph: Graph) => typeof update === 'function' ? update(graph) : update;
+
+export const graphHistory = {
+  create(graph: Graph, label: string = 'Start'): GraphHistory {
+    return { entries: [{ label, graph, timestamp: Date.now() }], index: 0 };
+  },
+
+  present(history: GraphHistory): Graph {
+    return history.entries[history.index].graph;
+  },
+
+  /**
+   * Records a new state after the current one, dropping any redo states. Updates that
+   * return the same graph object are ignored.
+   */
+  commit(history: GraphHistory, update: GraphUpdate, label: string, coalesceKey?: string, now: number = Date.now()): GraphHistory {
+    const current = history.entries[history.index];
+    const graph = applyUpdate(update, current.graph);
+    if (graph === current.graph) return history;
+
+    const isLatest = history.index === history.entries.length - 1;
+    if (
+      coalesceKey && isLatest && history.index > 0 &&
+      current.coalesceKey === coalesceKey &&
+      now - current.timestamp < COALESCE_WINDOW_MS
+    ) {
+      const entries = [...history.entries.slice(0, -1), { ...current, graph, timestamp: now }];
+      return { entries, index: history.index };
+    }
+
+    const entries = [
+      ...history.entries.slice(0, history.index + 1),
+      { label, graph, coalesceKey, timestamp: now },
+    ].slice(-MAX_ENTRIES);
+    return { entries, index: entries.length - 1 };
+  },
+
+  // Changes the current state in place, for derived data that shouldn't be undoable.
+  replace(history: GraphHistory, update: GraphUpdate): GraphHistory {
+    const current = history.entries[history.index];
+    const graph = applyUpdate(update, current.graph);
+    if (graph === current.graph) return history;
+
+    const entries = [...history.entries];
+    entries[history.index] = { ...current, graph };
+    return { entries, index: history.index };
+  },
+
+  jumpTo(history: GraphHistory, index: number): GraphHistory {
+    if (index < 0 || index >= history.entries.length || index === history.index) return history;
+    return { ...history, index };
+  },
+
+  undo(history: GraphHistory): GraphHistory {
+    return graphHistory.jumpTo(history, history.index - 1);
+  },
+
+  redo(history: GraphHistory): GraphHistory {
+    return graphHistory.jumpTo(history, history.index + 1);
+  },
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Graph, NodeInstance, Connection } from '@/types';
+
+export interface NodeSize {
+    width: number;
+    height: number;
+}
+
+// Used for nodes React Flow hasn't measured yet.
+const DEFAULT_NODE_SIZE: NodeSize = { width: 220, height: 80 };
+const CHAIN_GAP_X = 80;
+const FEEDER_GAP_X = 60;
+const BLOCK_INDENT_X = 60;
+const GAP_Y = 40;
+
+// A laid out piece of the graph. `anchorX` is where its main node starts.
+interface Box {
+    width: number;
+    height: number;
+    anchorX: number;
+    place: (x: number, y: number) => void;
+}
+
+const stack = (boxes: Box[]) => boxes.reduce((sum, box) => sum + box.height, 0) + GAP_Y * Math.max(0, boxes.length - 1);
+
+export const graphLayout = {
+  /**
+   * Lays out the given nodes (all of them by default) as a layered flow, starting at their
+   * current top-left corner. Exec chains run left to right, chains plugged into block sockets
+   * are indented below their parent, and nodes that only feed data into others are placed to
+   * the left of the node that uses them.
+   */
+  arrange(graph: Graph, sizes: Map<string, NodeSize>, nodeIds?: string[]): Graph {
+    const selected = nodeIds ? new Set(nodeIds) : null;
+    const targets = graph.nodes
+      .filter(n => !selected || selected.has(n.id))
+      .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+    if (targets.length === 0) return graph;
+
+    const nodesById = new Map(targets.map(n => [n.id, n]));
+    const connections = graph.connections.filter(c => nodesById.has(c.fromNode) && nodesById.has(c.toNode));
+    const isExec = (conn: Connection) =>
+      nodesById.get(conn.fromNode)!.sockets.outputs.find(s => s.id === conn.fromSocket)?.type === 'exec';
+    const execConnections = connections.filter(isExec);
+    const dataConnections = connections.filter(c => !isExec(c));
+    const inExecFlow = new Set(execConnections.flatMap(c => [c.fromNode, c.toNode]));
+
+    const sizeOf = (id: string) => sizes.get(id) || DEFAULT_NODE_SIZE;
+    const positions = new Map<string, { x: number; y: number }>();
+    // Nodes that already belong to a box, so each node is placed once.
+    const claimed = new Set<string>();
+
+    // A node with the data sources it alone uses stacked to its left.
+    const nodeBox = (node: NodeInstance): Box => {
+      claimed.add(node.id);
+      const feederIds = [...new Set(dataConnections
+        .filter(c => c.toNode === node.id && !inExecFlow.has(c.fromNode))
+        .map(c => c.fromNode))]
+        .filter(id => !claimed.has(id));
+      feederIds.forEach(id => claimed.add(id));
+      const feeders = feederIds.map(id => nodeBox(nodesById.get(id)!));
+
+      const size = sizeOf(node.id);
+      const feederWidth = feeders.length > 0 ? Math.max(...feeders.map(f => f.width)) + FEEDER_GAP_X : 0;
+      return {
+        width: feederWidth + size.width,
+        height: Math.max(size.height, stack(feeders)),
+        anchorX: feederWidth,
+        place: (x, y) => {
+          let feederY = y;
+          feeders.forEach(feeder => {
+            feeder.place(x + feederWidth - FEEDER_GAP_X - feeder.width, feederY);
+            feederY += feeder.height + GAP_Y;
+          });
+          positions.set(node.id, { x: x + feederWidth, y });
+        },
+      };
+    };
+
+    // An exec chain, left to right. Each node's block sockets hold chains indented below it.
+    const chainBox = (head: NodeInstance): Box => {
+      const cells: Box[] = [];
+      let current: NodeInstance | undefined = head;
+      while (current && !claimed.has(current.id)) {
+        const node: NodeInstance = current;
+        const main = nodeBox(node);
+        const blocks = node.sockets.outputs
+          .filter(s => s.type === 'exec' && s.name !== 'exec_out')
+          .flatMap(socket => execConnections.filter(c => c.fromSocket === socket.id))
+          .map(c => nodesById.get(c.toNode)!)
+          .filter(child => !claimed.has(child.id))
+          .map(chainBox);
+
+        const blockWidth = blocks.length > 0 ? main.anchorX + BLOCK_INDENT_X + Math.max(...blocks.map(b => b.width)) : 0;
+        cells.push({
+          width: Math.max(main.width, blockWidth),
+          height: main.height + (blocks.length > 0 ? GAP_Y + stack(blocks) : 0),
+          anchorX: main.anchorX,
+          place: (x, y) => {
+            main.place(x, y);
+            let blockY = y + main.height + GAP_Y;
+            blocks.forEach(block => {
+              block.place(x + main.anchorX + BLOCK_INDENT_X, blockY);
+              blockY += block.height + GAP_Y;
+            });
+          },
+        });
+
+        const next = execConnections.find(c => c.fromSocket === `${node.id}-exec_out`);
+        current = next && nodesById.get(next.toNode);
+      }
+
+      return {
+        width: cells.reduce((sum, cell) => sum + cell.width, 0) + CHAIN_GAP_X * Math.max(0, cells.length - 1),
+        height: Math.max(0, ...cells.map(cell => cell.height)),
+        anchorX: cells[0]?.anchorX ?? 0,
+        place: (x, y) => {
+          let cellX = x;
+          cells.forEach(cell => {
+            cell.place(cellX, y);
+            cellX += cell.width + CHAIN_GAP_X;
+          });
+        },
+      };
+    };
+
+    const roots: Box[] = [];
+    // Chains start at nodes whose exec input isn't fed from within the arranged nodes.
+    const isChainHead = (n: NodeInstance) =>
+      inExecFlow.has(n.id) && !execConnections.some(c => c.toNode === n.id && c.toSocket === `${n.id}-exec_in`);
+    targets.filter(isChainHead).forEach(n => !claimed.has(n.id) && roots.push(chainBox(n)));
+    // Chains that loop back onto themselves have no head.
+    targets.filter(n => inExecFlow.has(n.id)).forEach(n => !claimed.has(n.id) && roots.push(chainBox(n)));
+    // Of the remaining nodes, the ones whose output isn't used go first, taking their sources with them.
+    const feedsOthers = (n: NodeInstance) => dataConnections.some(c => c.fromNode === n.id && c.toNode !== n.id);
+    [...targets.filter(n => !feedsOthers(n)), ...targets].forEach(n => !claimed.has(n.id) && roots.push(nodeBox(n)));
+
+    const left = Math.min(...targets.map(n => n.position.x));
+    let y = Math.min(...targets.map(n => n.position.y));
+    roots.forEach(root => {
+      root.place(left, y);
+      y += root.height + GAP_Y;
+    });
+
+    return {
+      ...graph,
+      nodes: graph.nodes.map(n => {
+        const position = positions.get(n.id);
+        return position ? { ...n, position } : n;
+      }),
+    };
+  },
+};
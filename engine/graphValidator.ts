@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Graph, NodeInstance, Connection, SocketDef } from '@/types';
+import { SOCKET_COMPATIBILITY } from '@/config';
+import { argumentWalker, WalkerHandlers } from './argumentWalker';
+import { generateNodeSockets } from './nodeFactory';
+import { GenerationError } from './codeGenerator';
+import { registryManager } from './registry';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export interface Problem {
+    severity: ProblemSeverity;
+    message: string;
+    nodeIds: string[];
+    connectionId?: string;
+}
+
+// Whether a data output of type `source` may feed an input of type `target` (see SOCKET_COMPATIBILITY).
+export const canFeedDataType = (source: string, target: string): boolean =>
+    source === target || source === 'Default' || target === 'Default' ||
+    (SOCKET_COMPATIBILITY[source] || []).includes(target);
+
+// Returns why `source` can't feed `target`, or null when the connection is allowed.
+export const getConnectionError = (source: SocketDef, target: SocketDef): string | null => {
+    if (source.type !== target.type) {
+        return `Cannot connect a ${source.type} socket to a ${target.type} socket`;
+    }
+    if (source.type === 'data' && !canFeedDataType(source.dataType, target.dataType)) {
+        const accepted = [target.dataType, ...Object.keys(SOCKET_COMPATIBILITY).filter(type => type !== target.dataType && canFeedDataType(type, target.dataType))];
+        return `A ${source.dataType} output cannot feed a ${target.dataType} input, which accepts ${accepted.join(', ')}`;
+    }
+    return null;
+};
+
+const isEmpty = (value: any) => value === undefined || value === null || String(value).trim() === '';
+
+// Collects the labels of required primitives that have neither a value nor an incoming connection.
+const findEmptyRequiredFields = (node: NodeInstance, connectedSockets: Set<string>): string[] => {
+    const handlers: WalkerHandlers<string[]> = {
+        onPrimitive: ({ arg, key, node }) => {
+            if (arg.optional || connectedSockets.has(`${node.id}-${key}`)) return [];
+            return isEmpty(node.values[key]) ? [arg.label || arg.name || arg.originalType || arg.type] : [];
+        },
+        onKeyword: () => [],
+        onExecBlock: () => [],
+        onRepeatable: (_, items) => items.flat(),
+        onChoice: (_, __, childResult) => childResult || [],
+        onSubcommand: (_, childResults) => childResults.flat(),
+        onBlock: (_, childResults) => childResults.flat(),
+        onGroup: (_, childResults) => childResults.flat(),
+        onArray: (_, itemResults) => itemResults.flat(),
+        onBase: (_, arrayParamResult) => arrayParamResult || [],
+    };
+    return argumentWalker(node, handlers).flat();
+};
+
+const checkConnection = (
+    conn: Connection,
+    nodeMap: Map<string, NodeInstance>,
+    socketsByNode: Map<string, { inputs: SocketDef[]; outputs: SocketDef[] }>
+): Problem | null => {
+    const fromNode = nodeMap.get(conn.fromNode);
+    const toNode = nodeMap.get(conn.toNode);
+    if (!fromNode || !toNode) {
+        return {
+            severity: 'error',
+            message: 'Connection points to a node that no longer exists.',
+            nodeIds: [fromNode?.id, toNode?.id].filter((id): id is string => !!id),
+            connectionId: conn.id,
+        };
+    }
+
+    const source = socketsByNode.get(fromNode.id)!.outputs.find(s => s.id === conn.fromSocket);
+    const target = socketsByNode.get(toNode.id)!.inputs.find(s => s.id === conn.toSocket);
+    if (!source || !target) {
+        const [missingNode, missingSocket] = !source
+            ? [fromNode, conn.fromSocket.replace(`${fromNode.id}-`, '')]
+            : [toNode, conn.toSocket.replace(`${toNode.id}-`, '')];
+        return {
+            severity: 'error',
+            message: `Connection uses socket "${missingSocket}" on "${missingNode.displayName}", which no longer exists.`,
+            nodeIds: [fromNode.id, toNode.id],
+            connectionId: conn.id,
+        };
+    }
+
+    const connectionError = getConnectionError(source, target);
+    if (connectionError) {
+        return {
+            severity: 'error',
+            message: `${connectionError} ("${fromNode.displayName}" → "${toNode.displayName}").`,
+            nodeIds: [fromNode.id, toNode.id],
+            connectionId: conn.id,
+        };
+    }
+    return null;
+};
+
+export const graphValidator = {
+  /**
+   * Lints the graph and returns every problem found. Generation errors (such as cycles)
+   * can be passed in so that all problems are reported in one list.
+   */
+  validate(graph: Graph, generationErrors: GenerationError[] = []): Problem[] {
+    const { nodes, connections } = graph;
+    const problems: Problem[] = [];
+    const nodeMap = new Map(nodes.map(n => [n.id, n]));
+    const socketsByNode = new Map(nodes.map(n => [n.id, generateNodeSockets(n)]));
+    const connectedSockets = new Set(connections.map(c => c.toSocket));
+
+    nodes.forEach(node => {
+      if (!node.definition.unresolved) return;
+      problems.push({
+        severity: 'error',
+        message: `"${node.displayName}": no definition for type "${node.type}". The node is read-only and only emits a comment until it is re-mapped.`,
+        nodeIds: [node.id],
+      });
+    });
+
+    // Required fields. Hidden nodes are skipped, as they don't produce code.
+    nodes.forEach(node => {
+      if (!node.isVisible) return;
+      findEmptyRequiredFields(node, connectedSockets).forEach(label => {
+        problems.push({
+          severity: 'warning',
+          message: `"${node.displayName}": required field "${label}" is empty.`,
+          nodeIds: [node.id],
+        });
+      });
+    });
+
+    // Dangling, stale and mismatched connections.
+    connections.forEach(conn => {
+      const problem = checkConnection(conn, nodeMap, socketsByNode);
+      if (problem) problems.push(problem);
+    });
+
+    // Exec outputs can only drive one chain; the generator follows the first connection only.
+    const execFanOut = new Map<string, Connection[]>();
+    connections.forEach(conn => {
+      const source = socketsByNode.get(conn.fromNode)?.outputs.find(s => s.id === conn.fromSocket);
+      if (source?.type !== 'exec') return;
+      if (!execFanOut.has(conn.fromSocket)) execFanOut.set(conn.fromSocket, []);
+      execFanOut.get(conn.fromSocket)!.push(conn);
+    });
+    execFanOut.forEach(conns => {
+      if (conns.length < 2) return;
+      const fromNode = nodeMap.get(conns[0].fromNode)!;
+      problems.push({
+        severity: 'warning',
+        message: `"${fromNode.displayName}" has ${conns.length} connections on one exec output. Only the first one is used.`,
+        nodeIds: [fromNode.id, ...conns.map(c => c.toNode)],
+      });
+    });
+
+    // A name given to several entries is only defined for the first, so the others keep their plain reference.
+    if (graph.registry?.emitDefs) {
+      registryManager.groupByIdentifier(graph.registry).forEach((entries, name) => {
+        if (entries.length < 2) return;
+        const references = entries.map(({ kind, id }) => registryManager.formatReference(kind, id));
+        problems.push({
+          severity: 'warning',
+          message: `The name "${name}" is given to ${references.join(', ')}. Only ${references[0]} gets its def line.`,
+          nodeIds: [],
+        });
+      });
+    }
+
+    generationErrors.forEach(error => {
+      problems.push({ severity: 'error', message: error.message, nodeIds: error.nodeIds });
+    });
+
+    return problems;
+  }
+};
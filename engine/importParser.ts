@@ -2,61 +2,640 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { Graph, Connection } from '@/types';
-import { nodeFactory, getUniqueId } from '@/engine/nodeFactory';
+import { Graph, NodeInstance } from '@/types';
+import { nodeFactory, getUniqueId, getIdentifier, generateNodeSockets } from '@/engine/nodeFactory';
+
+// A single statement recovered from the script. `definition` is null when no
+// command matched, in which case `raw` holds the original text verbatim.
+interface ParsedStatement {
+    definition: any | null;
+    values: Record<string, any>;
+    blocks: ParsedBlock[];
+    raw: string;
+    // The lines of the script the statement was read from, 0-based and inclusive.
+    startLine: number;
+    endLine: number;
+}
+
+// Where the statement of an imported node was found. Statements that matched no definition
+// became "Generate Raw Code" nodes and are not `parsed`.
+export interface ImportedStatement {
+    nodeId: string;
+    startLine: number;
+    endLine: number;
+    parsed: boolean;
+}
+
+export interface ImportResult {
+    graph: Graph;
+    statements: ImportedStatement[];
+}
+
+// The statements found inside an exec block, keyed by the block's socket name.
+interface ParsedBlock {
+    key: string;
+    statements: ParsedStatement[];
+}
+
+interface MatchState {
+    pos: number;
+    values: Record<string, any>;
+    blocks: ParsedBlock[];
+}
+
+// Top-level arguments of a statement must stay on one line, while the inside of
+// (), [] and {} containers may wrap.
+interface MatchContext {
+    multiline: boolean;
+}
+
+const PRIMITIVE_TYPES = new Set(['String', 'Numeric', 'Variable', 'Switch', 'Condition', 'Expression', 'Value', 'Numeric..Numeric', 'RawCode', 'JSCode']);
+const EXPRESSION_TYPES = new Set(['Condition', 'Expression', 'Value', 'RawCode', 'JSCode']);
+// These are the fallback and helper nodes, they never take part in matching.
+const NON_GRAMMAR_COMMANDS = new Set(['Generate Raw Code', 'Evaluate JS Code']);
+const NUMERIC_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+const WORD_CHAR = /[A-Za-z0-9_]/;
+const TERM_STOP_CHARS = ',)]}{';
+// Upper bound of argument match attempts per definition and statement, so that
+// a pathological line can't hang the import.
+const MAX_MATCH_STEPS = 20000;
+
+const NODE_SPACING_X = 350;
+const NODE_SPACING_Y = 250;
+const BLOCK_INDENT_X = 40;
+
+const assign = (state: MatchState, values: Record<string, any>, pos: number = state.pos): MatchState => ({
+    ...state,
+    pos,
+    values: { ...state.values, ...values },
+});
+
+const getHeadLiteral = (nodeDef: any): string => {
+    // Mirrors codeGenerator: `base` wins when present (even if null), otherwise `command`.
+    if (Object.prototype.hasOwnProperty.call(nodeDef, 'base')) return nodeDef.base || '';
+    return nodeDef.command || '';
+};
+
+const createScriptParser = (src: string, definitions: any[]) => {
+    let steps = 0;
+    const blockBodyCache = new Map<number, { statements: ParsedStatement[]; end: number } | null>();
+    const lineStarts = [0];
+    for (let i = 0; i < src.length; i++) if (src[i] === '\n') lineStarts.push(i + 1);
+
+    const getLine = (pos: number): number => {
+        let line = 0;
+        while (line + 1 < lineStarts.length && lineStarts[line + 1] <= pos) line++;
+        return line;
+    };
+
+    const skipWhitespace = (pos: number, multiline: boolean): number => {
+        while (pos < src.length) {
+            const ch = src[pos];
+            if (ch === ' ' || ch === '\t' || ch === '\r' || (multiline && ch === '\n')) {
+                pos++;
+            } else {
+                break;
+            }
+        }
+        return pos;
+    };
+
+    // Returns the index just past a double-quoted string starting at `pos`, or -1.
+    const scanString = (pos: number): number => {
+        if (src[pos] !== '"') return -1;
+        for (let i = pos + 1; i < src.length; i++) {
+            if (src[i] === '\\') { i++; continue; }
+            if (src[i] === '"') return i + 1;
+            if (src[i] === '\n') return -1;
+        }
+        return -1;
+    };
+
+    // Scans a bracket-balanced run of text and returns its possible end positions, longest first.
+    // A single token ends at the first top-level whitespace; an expression may contain spaces and
+    // only ends at a stop character or newline, so every word boundary is a candidate end.
+    const scanTerm = (pos: number, singleToken: boolean): number[] => {
+        const ends: number[] = [];
+        let depth = 0;
+        let i = pos;
+        while (i < src.length) {
+            const ch = src[i];
+            if (ch === '"') {
+                const end = scanString(i);
+                if (end === -1) return [];
+                i = end;
+                continue;
+            }
+            if (ch === '\n') break;
+            if (ch === '(' || ch === '[') {
+                depth++;
+            } else if (ch === ')' || ch === ']') {
+                if (depth === 0) break;
+                depth--;
+            } else if (depth === 0) {
+                if (TERM_STOP_CHARS.includes(ch)) break;
+                if (ch === ' ' || ch === '\t' || ch === '\r') {
+                    if (singleToken) break;
+                    if (i > pos && !/\s/.test(src[i - 1])) ends.push(i);
+                }
+            }
+            i++;
+        }
+        if (depth !== 0) return [];
+        if (i > pos && !/\s/.test(src[i - 1])) ends.push(i);
+        return ends.reverse();
+    };
+
+    // Matches a literal such as a base, keyword or delimiter. Returns the end position or -1.
+    const matchLiteral = (pos: number, literal: string, ctx: MatchContext): number => {
+        if (!literal) return pos;
+        const start = skipWhitespace(pos, ctx.multiline);
+        if (!src.startsWith(literal, start)) return -1;
+        const end = start + literal.length;
+        // `.on` must not match the start of `.once`, nor `v` the start of `var`.
+        if (WORD_CHAR.test(literal[literal.length - 1]) && end < src.length && WORD_CHAR.test(src[end])) return -1;
+        return end;
+    };
+
+    const isStatementEnd = (pos: number, inBlock: boolean): boolean => {
+        const next = skipWhitespace(pos, false);
+        return next >= src.length || src[next] === '\n' || (inBlock && src[next] === '}');
+    };
+
+    function* matchPrimitive(arg: any, key: string, state: MatchState, ctx: MatchContext): Generator<MatchState> {
+        const start = skipWhitespace(state.pos, ctx.multiline);
+        if (src[start] === '.') return; // Never swallow a keyword or subcommand.
+
+        if (arg.prefix) {
+            if (!src.startsWith(arg.prefix, start)) return;
+            const valueStart = start + arg.prefix.length;
+            for (const end of scanTerm(valueStart, true)) {
+                yield assign(state, { [key]: src.slice(valueStart, end) }, end);
+            }
+            return;
+        }
+
+        if (arg.type === 'String' && !arg.is_identifier) {
+            const end = scanString(start);
+            if (end !== -1) yield assign(state, { [key]: src.slice(start + 1, end - 1) }, end);
+            return;
+        }
+
+        if (EXPRESSION_TYPES.has(arg.type)) {
+            for (const end of scanTerm(start, false)) {
+                yield assign(state, { [key]: src.slice(start, end) }, end);
+            }
+            return;
+        }
+
+        for (const end of scanTerm(start, true)) {
+            const text = src.slice(start, end);
+            if (arg.type === 'Numeric' && !NUMERIC_PATTERN.test(text)) continue;
+            if (arg.type === 'Numeric..Numeric' && !text.includes('..')) continue;
+            if ((arg.type === 'Variable' || arg.type === 'Switch') && (text.startsWith('"') || text.includes('..'))) continue;
+            yield assign(state, { [key]: text }, end);
+        }
+    }
+
+    // Matches `[ ... ]` holding an array parameter, which the walker keys as `array_param`.
+    function* matchArrayParameter(arrayParam: any, prefix: string, state: MatchState, ctx: MatchContext): Generator<MatchState> {
+        const open = matchLiteral(state.pos, '[', ctx);
+        if (open === -1) return;
+        const inner: MatchContext = { multiline: true };
+        for (const s of matchArg({ ...arrayParam, name: 'array_param' }, prefix, assign(state, {}, open), inner)) {
+            const close = matchLiteral(s.pos, ']', inner);
+            if (close !== -1) yield assign(s, {}, close);
+        }
+    }
+
+    // Matches arguments in order. When a separator is given, it must appear between any two
+    // arguments that produced text, just like the generator's join skips empty children.
+    function* matchSequence(
+        args: any[],
+        prefixFor: (index: number) => string,
+        state: MatchState,
+        ctx: MatchContext,
+        separator: string | null,
+        index: number = 0,
+        emitted: boolean = false
+    ): Generator<MatchState> {
+        if (index >= args.length) {
+            yield state;
+            return;
+        }
+        const arg = args[index];
+        const prefix = prefixFor(index);
+
+        if (separator && emitted) {
+            const separatorEnd = matchLiteral(state.pos, separator, ctx);
+            if (separatorEnd !== -1) {
+                for (const s of matchArg(arg, prefix, assign(state, {}, separatorEnd), ctx)) {
+                    if (s.pos > separatorEnd) yield* matchSequence(args, prefixFor, s, ctx, separator, index + 1, true);
+                }
+            }
+            for (const s of matchArg(arg, prefix, state, ctx)) {
+                if (s.pos === state.pos) yield* matchSequence(args, prefixFor, s, ctx, separator, index + 1, true);
+            }
+            return;
+        }
+
+        for (const s of matchArg(arg, prefix, state, ctx)) {
+            yield* matchSequence(args, prefixFor, s, ctx, separator, index + 1, emitted || s.pos > state.pos);
+        }
+    }
+
+    // The grammar counterpart of argumentWalker's `_walk`: the same keys, in the same order,
+    // so the values it records are exactly what the node UI and the code generator read back.
+    function* matchArg(arg: any, prefix: string, state: MatchState, ctx: MatchContext): Generator<MatchState> {
+        if (++steps > MAX_MATCH_STEPS) return;
+
+        const name = getIdentifier(arg);
+        if (!name && !['group', 'block', 'Array'].includes(arg.type)) {
+            yield state;
+            return;
+        }
+        const key = `${prefix}${name}`;
+
+        if (arg.optional && arg.type !== 'choice') {
+            const enabledKey = arg.type === 'keyword' ? key : `${key}_enabled`;
+            for (const s of matchArg({ ...arg, optional: false }, prefix, state, ctx)) {
+                if (s.pos > state.pos) yield assign(s, { [enabledKey]: true });
+            }
+            yield assign(state, { [enabledKey]: false });
+            return;
+        }
+
+        if (arg.repeatable) {
+            const itemArg = { ...arg, repeatable: false, optional: false };
+            const countKey = `${key}_count`;
+            // Items that hold blocks are joined with newlines by the generator.
+            const hasBlock = arg.type === 'block'
+                || (Array.isArray(arg.arguments) && arg.arguments.some((a: any) => a.type === 'block'))
+                || (Array.isArray(arg.content) && arg.content.some((a: any) => a.type === 'block'));
+            const itemCtx: MatchContext = { multiline: ctx.multiline || hasBlock || arg.repeatable_joiner === '\n' };
+
+            function* matchItems(i: number, current: MatchState): Generator<MatchState> {
+                for (const s of matchArg(itemArg, `${prefix}${name}_${i}_`, current, i === 0 ? ctx : itemCtx)) {
+                    if (s.pos > current.pos) yield* matchItems(i + 1, s);
+                }
+                yield assign(current, { [countKey]: i });
+            }
+            yield* matchItems(0, state);
+            return;
+        }
+
+        switch (arg.type) {
+            case 'String':
+            case 'Numeric':
+            case 'Variable':
+            case 'Switch':
+            case 'Condition':
+            case 'Expression':
+            case 'Value':
+            case 'Numeric..Numeric':
+            case 'RawCode':
+            case 'JSCode':
+                yield* matchPrimitive(arg, key, state, ctx);
+                return;
+
+            case 'assignment':
+            case 'keyword': {
+                if (arg.value === '.hidden') {
+                    yield state;
+                    return;
+                }
+                const end = matchLiteral(state.pos, arg.value || '', ctx);
+                if (end !== -1) yield assign(state, {}, end);
+                return;
+            }
+
+            case 'choice':
+                for (const option of arg.options || []) {
+                    const optionId = getIdentifier(option);
+                    yield* matchArg({ ...option, name: optionId }, `${key}_`, assign(state, { [key]: optionId }), ctx);
+                }
+                if (arg.optional) yield assign(state, { [key]: '__none__' });
+                return;
+
+            case 'block': {
+                if (Array.isArray(arg.content)) { // Container
+                    const nameEnd = matchLiteral(state.pos, arg.name || '', ctx);
+                    if (nameEnd === -1) return;
+                    const open = matchLiteral(nameEnd, '{', ctx);
+                    if (open === -1) return;
+                    const inner: MatchContext = { multiline: true };
+                    for (const s of matchSequence(arg.content, i => `${key}_${i}_`, assign(state, {}, open), inner, null)) {
+                        const close = matchLiteral(s.pos, '}', inner);
+                        if (close !== -1) yield assign(s, {}, close);
+                    }
+                    return;
+                }
+                // Executable: the body is parsed as statements that get wired behind this socket.
+                const open = matchLiteral(state.pos, '{', ctx);
+                if (open === -1) return;
+                const body = parseBlockBody(open);
+                if (!body) return;
+                yield { ...state, pos: body.end, blocks: [...state.blocks, { key, statements: body.statements }] };
+                return;
+            }
+
+            case 'subcommand': {
+                const nameEnd = matchLiteral(state.pos, arg.name || '', ctx);
+                if (nameEnd === -1) return;
+                const afterName = assign(state, {}, nameEnd);
+                const heads = arg.array_parameter
+                    ? [...matchArrayParameter(arg.array_parameter, `${key}_`, afterName, ctx)]
+                    : [afterName];
+                const args: any[] = arg.arguments || [];
+                const argPrefix = (i: number) => `${key}_${i}_`;
+                const hasBlock = args.some(a => a.type === 'block');
+
+                for (const head of heads) {
+                    if (hasBlock) {
+                        yield* matchSequence(args, argPrefix, head, ctx, null);
+                        continue;
+                    }
+                    const open = args.length > 0 ? matchLiteral(head.pos, '(', ctx) : -1;
+                    if (open !== -1) {
+                        const inner: MatchContext = { multiline: true };
+                        for (const s of matchSequence(args, argPrefix, assign(head, {}, open), inner, ',')) {
+                            const close = matchLiteral(s.pos, ')', inner);
+                            if (close !== -1) yield assign(s, {}, close);
+                        }
+                    }
+                    // Without parentheses, every argument must be one that emits nothing.
+                    for (const s of matchSequence(args, argPrefix, head, ctx, null)) {
+                        if (s.pos === head.pos) yield s;
+                    }
+                }
+                return;
+            }
+
+            case 'group':
+                if (!arg.content) {
+                    yield state;
+                    return;
+                }
+                yield* matchSequence(arg.content, i => `${prefix}${i}_`, state, ctx, null);
+                return;
+
+            case 'Array': {
+                if (!arg.content) {
+                    // The walker treats an Array without content as a plain string input.
+                    yield* matchPrimitive({ ...arg, type: 'String', originalType: 'Array', name: arg.name || 'array' }, key, state, ctx);
+                    return;
+                }
+                const [startDelim, endDelim] = arg.delimiters || ['[', ']'];
+                const separator = (arg.separator || ', ').trim() || null;
+                const open = matchLiteral(state.pos, startDelim, ctx);
+                if (open === -1) return;
+                const inner: MatchContext = { multiline: true };
+                const itemArg = { ...arg.content, repeatable: false };
+                const countKey = `${key}_count`;
+
+                function* matchItems(i: number, current: MatchState): Generator<MatchState> {
+                    const itemStart = i > 0 && separator ? matchLiteral(current.pos, separator, inner) : current.pos;
+                    if (itemStart !== -1) {
+                        for (const s of matchArg(itemArg, `${key}_${i}_`, assign(current, {}, itemStart), inner)) {
+                            if (s.pos > itemStart) yield* matchItems(i + 1, s);
+                        }
+                    }
+                    const close = matchLiteral(current.pos, endDelim, inner);
+                    if (close !== -1) yield assign(current, { [countKey]: i }, close);
+                }
+                yield* matchItems(0, assign(state, {}, open));
+                return;
+            }
+
+            case 'base': {
+                const nameEnd = matchLiteral(state.pos, arg.name || '', ctx);
+                if (nameEnd === -1) return;
+                const afterName = assign(state, {}, nameEnd);
+                if (arg.array_parameter) {
+                    yield* matchArrayParameter(arg.array_parameter, `${key}_`, afterName, ctx);
+                }
+                yield afterName;
+                return;
+            }
+        }
+
+        // Types the walker doesn't know produce no code, so they match nothing.
+        yield state;
+    }
+
+    function* matchDefinition(def: any, pos: number): Generator<MatchState> {
+        const nodeDef = def.nodeDef;
+        const ctx: MatchContext = { multiline: false };
+        const headEnd = matchLiteral(pos, getHeadLiteral(nodeDef), ctx);
+        if (headEnd === -1) return;
+
+        const afterHead: MatchState = { pos: headEnd, values: {}, blocks: [] };
+        const heads = nodeDef.array_parameter
+            ? [...matchArrayParameter(nodeDef.array_parameter, '', afterHead, ctx)]
+            : [afterHead];
+
+        for (const head of heads) {
+            const subcommandEnd = matchLiteral(head.pos, nodeDef.subcommand || '', ctx);
+            if (subcommandEnd === -1) continue;
+            yield* matchSequence(nodeDef.arguments || [], i => `${i}_`, assign(head, {}, subcommandEnd), ctx, null);
+        }
+    }
+
+    // Picks the definition whose match runs furthest while ending exactly at the end of the line.
+    const parseStatement = (pos: number, inBlock: boolean): { statement: ParsedStatement; end: number } | null => {
+        const outerSteps = steps;
+        let best: { definition: any; state: MatchState } | null = null;
+
+        for (const definition of definitions) {
+            const head = getHeadLiteral(definition.nodeDef);
+            if (head && !src.startsWith(head, pos)) continue;
+
+            steps = 0;
+            for (const state of matchDefinition(definition, pos)) {
+                if (isStatementEnd(state.pos, inBlock)) {
+                    if (!best || state.pos > best.state.pos) best = { definition, state };
+                    break;
+                }
+            }
+        }
+        steps = outerSteps;
+
+        if (!best) return null;
+        return {
+            statement: { definition: best.definition, values: best.state.values, blocks: best.state.blocks, raw: '', startLine: 0, endLine: 0 },
+            end: best.state.pos,
+        };
+    };
+
+    // Consumes an unparseable statement: the rest of the line, plus any lines needed to balance braces.
+    const scanRawStatement = (pos: number, inBlock: boolean): { statement: ParsedStatement; end: number } => {
+        let depth = 0;
+        let i = pos;
+        while (i < src.length) {
+            const ch = src[i];
+            if (ch === '"') {
+                const end = scanString(i);
+                if (end !== -1) { i = end; continue; }
+            }
+            if (ch === '{') {
+                depth++;
+            } else if (ch === '}') {
+                if (depth === 0 && inBlock) break;
+                if (depth > 0) depth--;
+            } else if (ch === '\n' && depth === 0) {
+                break;
+            }
+            i++;
+        }
+
+        // Re-indent continuation lines relative to the statement's own column.
+        const column = pos - (src.lastIndexOf('\n', pos - 1) + 1);
+        const lines = src.slice(pos, i).trimEnd().split('\n');
+        const raw = lines.map((line, index) => {
+            if (index === 0) return line;
+            const indent = line.match(/^[ \t]*/)![0].length;
+            return line.slice(Math.min(indent, column));
+        }).join('\n');
+
+        return { statement: { definition: null, values: {}, blocks: [], raw, startLine: 0, endLine: 0 }, end: i };
+    };
+
+    // Parses statements until the end of the input or, inside a block, the closing brace.
+    // At the top level a blank line starts a new exec chain.
+    const parseSequence = (pos: number, inBlock: boolean): { chains: ParsedStatement[][]; end: number } => {
+        const chains: ParsedStatement[][] = [[]];
+        let i = pos;
+
+        while (true) {
+            const gapStart = i;
+            i = skipWhitespace(i, true);
+            if (i >= src.length || (inBlock && src[i] === '}')) break;
+
+            let chain = chains[chains.length - 1];
+            const newlines = src.slice(gapStart, i).split('\n').length - 1;
+            if (!inBlock && newlines >= 2 && chain.length > 0) {
+                chain = [];
+                chains.push(chain);
+            }
+
+            const parsed = parseStatement(i, inBlock) ?? scanRawStatement(i, inBlock);
+            parsed.statement.startLine = getLine(i);
+            parsed.statement.endLine = getLine(Math.max(i, parsed.end - 1));
+            const previous = chain[chain.length - 1];
+            if (!parsed.statement.definition && previous && !previous.definition) {
+                previous.raw += `\n${parsed.statement.raw}`;
+                previous.endLine = parsed.statement.endLine;
+            } else {
+                chain.push(parsed.statement);
+            }
+            i = parsed.end;
+        }
+
+        return { chains: chains.filter(c => c.length > 0), end: i };
+    };
+
+    const parseBlockBody = (open: number): { statements: ParsedStatement[]; end: number } | null => {
+        if (blockBodyCache.has(open)) return blockBodyCache.get(open)!;
+        const sequence = parseSequence(open, true);
+        const close = skipWhitespace(sequence.end, true);
+        const result = src[close] === '}' ? { statements: sequence.chains.flat(), end: close + 1 } : null;
+        blockBodyCache.set(open, result);
+        return result;
+    };
+
+    return {
+        parse: (): ParsedStatement[][] => parseSequence(0, false).chains,
+    };
+};
 
 export const importParser = {
-  parse(script: string, definitions: any[], fileName: string): Graph {
-    const evalJsDef = definitions.find(d => d.nodeDef?.command === 'Evaluate JS Code');
+  /**
+   * Rebuilds a graph from TPC source, using the loaded command definitions as the grammar.
+   * Statements that match no definition are kept verbatim in "Generate Raw Code" nodes.
+   */
+  parse(script: string, definitions: any[]): Graph {
+    return importParser.parseDetailed(script, definitions).graph;
+  },
+
+  // Like `parse`, also telling which lines each statement node was read from.
+  parseDetailed(script: string, definitions: any[]): ImportResult {
     const rawCodeDef = definitions.find(d => d.nodeDef?.command === 'Generate Raw Code');
 
-    if (!evalJsDef || !rawCodeDef) {
-      console.error("Required node definitions for 'Evaluate JS Code' or 'Generate Raw Code' not found.");
-      return { nodes: [], connections: [] };
+    if (!rawCodeDef) {
+      console.error("Required node definition for 'Generate Raw Code' not found.");
+      return { graph: { nodes: [], connections: [] }, statements: [] };
     }
 
+    // Expression nodes are pieces of a statement, never a statement on their own.
+    const grammar = definitions.filter(d => !NON_GRAMMAR_COMMANDS.has(d.nodeDef?.command) && !d.nodeDef?.expression);
+    const chains = createScriptParser(script.replace(/\r\n?/g, '\n'), grammar).parse();
+
     const graph: Graph = { nodes: [], connections: [] };
-    const yPos = 100;
-    const xEval = 100;
-    const xRaw = 600;
-
-    // 1. Create the main "Evaluate JS Code" node for the header
-    const evalNode = nodeFactory.createNodeInstance(evalJsDef, { x: xEval, y: yPos }, 'File Header');
-    evalNode.values = {
-      ...evalNode.values,
-      // Variable group for filename
-      '0_variable_count': 1,
-      '0_variable_0_0_name': 'filename',
-      '0_variable_0_1_value': fileName,
-      // JS code to generate the header string. This code runs in the node.
-      '1_code': `\`// Code from \${filename}
-// ====================================
-      
-\``
-    };
-    graph.nodes.push(evalNode);
-
-    // 2. Create a "Generate Raw Code" node with two inputs: one for the header, one for the script.
-    const rawCodeNode = nodeFactory.createNodeInstance(rawCodeDef, { x: xRaw, y: yPos }, 'Imported TPC Code');
-    
-    // It will have 2 inputs: one for the header, and one for the entire script.
-    rawCodeNode.values['0_code_count'] = 2;
-
-    // The first input (index 0) is for the header from the connected node.
-    // The second input (index 1) will contain the entire script.
-    rawCodeNode.values['0_code_1_code'] = script;
-    graph.nodes.push(rawCodeNode);
-
-    // 3. Connect the header evaluation node to the first input of the raw code node
-    const connection: Connection = {
-      id: getUniqueId('edge'),
-      fromNode: evalNode.id,
-      fromSocket: `${evalNode.id}-1_code`, // Output socket for the JS result
-      toNode: rawCodeNode.id,
-      toSocket: `${rawCodeNode.id}-0_code_0_code` // The first RawCode input
-    };
-    graph.connections.push(connection);
-    
-    return graph;
+    const statements: ImportedStatement[] = [];
+
+    const createNode = (statement: ParsedStatement, x: number, y: number): NodeInstance => {
+      const def = statement.definition ?? rawCodeDef;
+      const node = nodeFactory.createNodeInstance(def, { x, y }, statement.definition ? def.displayName : 'Unparsed TPC Code');
+      node.values = statement.definition
+        ? { ...node.values, ...statement.values }
+        : { ...node.values, '0_code_count': 1, '0_code_0_code': statement.raw };
+      // Sockets depend on the values (choices, optionals, counts), so rebuild them.
+      node.sockets = generateNodeSockets(node);
+      graph.nodes.push(node);
+      statements.push({ nodeId: node.id, startLine: statement.startLine, endLine: statement.endLine, parsed: !!statement.definition });
+      return node;
+    };
+
+    const connectExec = (fromNode: NodeInstance, fromSocketName: string, toNode: NodeInstance) => {
+      graph.connections.push({
+        id: getUniqueId('edge'),
+        fromNode: fromNode.id,
+        fromSocket: `${fromNode.id}-${fromSocketName}`,
+        toNode: toNode.id,
+        toSocket: `${toNode.id}-exec_in`,
+      });
+    };
+
+    // Lays a chain out left to right, with each block's chain below the node that owns it.
+    const buildChain = (statements: ParsedStatement[], x: number, y: number): { head: NodeInstance; right: number; bottom: number } => {
+      let cursorX = x;
+      let right = x;
+      let bottom = y + NODE_SPACING_Y;
+      let head: NodeInstance | null = null;
+      let previous: NodeInstance | null = null;
+
+      for (const statement of statements) {
+        const node = createNode(statement, cursorX, y);
+        if (previous) {
+          connectExec(previous, 'exec_out', node);
+        } else {
+          head = node;
+        }
+
+        let nodeRight = cursorX;
+        let blockY = y + NODE_SPACING_Y;
+        for (const block of statement.blocks) {
+          if (block.statements.length === 0) continue;
+          const child = buildChain(block.statements, cursorX + BLOCK_INDENT_X, blockY);
+          connectExec(node, block.key, child.head);
+          nodeRight = Math.max(nodeRight, child.right);
+          blockY = child.bottom;
+        }
+
+        bottom = Math.max(bottom, blockY);
+        right = nodeRight;
+        previous = node;
+        cursorX = nodeRight + NODE_SPACING_X;
+      }
+
+      return { head: head!, right, bottom };
+    };
+
+    let y = 100;
+    chains.forEach(chain => {
+      y = buildChain(chain, 100, y).bottom + NODE_SPACING_Y / 2;
+    });
+
+    return { graph, statements };
   }
-};
\ No newline at end of file
+};
@@ -4,6 +4,7 @@
 */
 import { NodeInstance, SocketDef, Position } from '@/types';
 import { argumentWalker, WalkerHandlers } from './argumentWalker';
+import { EXPRESSION_RESULT_KEY } from './expressions';
 
 export const getUniqueId = (prefix: string = 'id') => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
 
@@ -17,11 +18,50 @@ export const getIdentifier = (item: any): string => {
     return item.name || item.value || item.type || '';
 };
 
+// A socket listed directly in a definition, for nodes that have no arguments to walk.
+export type FixedSocket = Pick<SocketDef, 'name' | 'io' | 'type' | 'dataType'> & { label?: string };
+
+// Lists the value keys the walker visits for a node, skipping values of the wrong kind
+// (such as a string where a flag is expected) and choices without a matching option.
+const collectValueKeys = (node: NodeInstance): string[] => {
+    const handlers: WalkerHandlers<string[]> = {
+        onOptional: ({ arg, key, getValue }, _, content) => {
+            const enabledKey = arg.type === 'keyword' ? key : `${key}_enabled`;
+            return typeof getValue(enabledKey) === 'boolean' ? [enabledKey, ...(content || [])] : [];
+        },
+        onRepeatable: ({ key, getValue }, items) => typeof getValue(`${key}_count`) === 'number' ? [`${key}_count`, ...items.flat()] : [],
+        onPrimitive: ({ key, getValue }) => ['string', 'number'].includes(typeof getValue(key)) ? [key] : [],
+        onKeyword: ({ key, getValue }) => typeof getValue(key) === 'boolean' ? [key] : [],
+        onChoice: ({ key, getValue }, selectedOption, childResult) => selectedOption || getValue(key) === '__none__' ? [key, ...(childResult || [])] : [],
+        onExecBlock: () => [],
+        onSubcommand: (_, childResults) => childResults.flat(),
+        onBlock: (_, childResults) => childResults.flat(),
+        onGroup: (_, childResults) => childResults.flat(),
+        onArray: ({ key, getValue }, itemResults) => typeof getValue(`${key}_count`) === 'number' ? [`${key}_count`, ...itemResults.flat()] : [],
+        onBase: (_, arrayParamResult) => arrayParamResult || [],
+    };
+    return argumentWalker(node, handlers).flat();
+};
+
 // Function to generate all sockets for a node based on its current state
 export const generateNodeSockets = (nodeInstance: NodeInstance): { inputs: SocketDef[], outputs: SocketDef[] } => {
   const allSockets: SocketDef[] = [];
   const nodeId = nodeInstance.id;
   const fullDefinition = nodeInstance.definition;
+
+  // Unresolved and subgraph nodes have no arguments to walk; their definition lists the sockets.
+  if (fullDefinition.sockets) {
+    const sockets: SocketDef[] = fullDefinition.sockets.map((s: FixedSocket) => ({
+      ...s,
+      id: `${nodeId}-${s.name}`,
+      label: s.label ?? (s.type === 'exec' && (s.name === 'exec_in' || s.name === 'exec_out') ? '▶' : s.name),
+      nodeId,
+    }));
+    return {
+      inputs: sockets.filter(s => s.io === 'input'),
+      outputs: sockets.filter(s => s.io === 'output'),
+    };
+  }
   const nodeDef = fullDefinition.nodeDef;
   const sourceFile = fullDefinition.sourceFile;
 
@@ -93,7 +133,12 @@ export const generateNodeSockets = (nodeInstance: NodeInstance): { inputs: Socke
       onBase: (_, arrayParamResult) => arrayParamResult || []
   };
 
-  if (nodeInstance.isExpanded || !nodeDef.arguments?.length) {
+  // Expression nodes keep their operand inputs while collapsed, and offer the composed text on a
+  // single output instead of one per field.
+  if (nodeDef.expression) {
+      const inputs = argumentWalker(nodeInstance, handlers).flat().filter(s => s.io === 'input');
+      allSockets.push(...inputs, { id: `${nodeId}-${EXPRESSION_RESULT_KEY}`, name: EXPRESSION_RESULT_KEY, label: 'Result', io: 'output', type: 'data', dataType: 'Expression', nodeId });
+  } else if (nodeInstance.isExpanded || !nodeDef.arguments?.length) {
       const generatedSockets = argumentWalker(nodeInstance, handlers);
       allSockets.push(...generatedSockets.flat());
   }
@@ -202,6 +247,34 @@ export const nodeFactory = {
     return { nodeDef, defaultValues };
   },
 
+  // Stand-in definition for a saved node whose type is missing from the registry.
+  createUnresolvedDefinition: (type: string, sockets: FixedSocket[]) => ({
+    type,
+    displayName: type,
+    unresolved: true,
+    sockets,
+    nodeDef: { command: type, type, arguments: [] },
+    defaultValues: {},
+  }),
+
+  /**
+   * Rebuilds a node from another definition, keeping its id, position and visibility.
+   * Saved values are carried over where the new definition uses the same key for the same kind of value.
+   */
+  remapNode: (node: NodeInstance, def: any): NodeInstance => {
+    const remapped: NodeInstance = {
+      ...nodeFactory.createNodeInstance(def, node.position, def.displayName),
+      id: node.id,
+      isVisible: node.isVisible,
+    };
+    const merged = { ...remapped.values, ...node.values };
+    collectValueKeys({ ...remapped, values: merged }).forEach(key => {
+      if (key in node.values) remapped.values[key] = node.values[key];
+    });
+    remapped.sockets = generateNodeSockets(remapped);
+    return remapped;
+  },
+
   createNodeInstance: (def: any, position: Position, displayName: string): NodeInstance => {
     const nodeId = getUniqueId('node');
     const hasComplexArgs = def.nodeDef.arguments?.length > 0 || !!def.nodeDef.array_parameter;
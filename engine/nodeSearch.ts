@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { NodeInstance, SocketDef } from '@/types';
+import { getConnectionError } from './graphValidator';
+import { nodeFactory } from './nodeFactory';
+
+const MAX_RESULTS = 50;
+
+// Scores how well `query` matches `text`: exact and prefix matches first, then substrings, then
+// the query's characters appearing in order, preferring runs and word starts. Null means no match.
+const fuzzyScore = (query: string, text: string): number | null => {
+    const q = query.toLowerCase();
+    const t = text.toLowerCase();
+    if (t === q) return 1000;
+    if (t.startsWith(q)) return 900 - t.length;
+    const index = t.indexOf(q);
+    if (index >= 0) return 700 - index - t.length;
+
+    let score = 0;
+    let run = 0;
+    let ti = 0;
+    for (const char of q) {
+        const found = t.indexOf(char, ti);
+        if (found < 0) return null;
+        run = found === ti ? run + 1 : 0;
+        const atWordStart = found === 0 || /[\s._@#\-(]/.test(t[found - 1]);
+        score += 10 + run * 5 + (atWordStart ? 10 : 0) - Math.min(found - ti, 10);
+        ti = found + 1;
+    }
+    return score;
+};
+
+export const nodeSearch = {
+  /**
+   * Finds the definitions whose display name, signature or type fuzzily match the query, best
+   * matches first. An empty query lists every definition by name.
+   */
+  search(definitions: any[], query: string): any[] {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return [...definitions].sort((a, b) => a.displayName.localeCompare(b.displayName)).slice(0, MAX_RESULTS);
+    }
+    return definitions
+      .map(def => {
+        const scores = [
+          fuzzyScore(trimmed, def.displayName || ''),
+          fuzzyScore(trimmed, def.signature || ''),
+          fuzzyScore(trimmed, def.type),
+        ].filter((s): s is number => s !== null);
+        return { def, score: scores.length > 0 ? Math.max(...scores) : null };
+      })
+      .filter(r => r.score !== null)
+      .sort((a, b) => b.score! - a.score! || a.def.displayName.localeCompare(b.def.displayName))
+      .slice(0, MAX_RESULTS)
+      .map(r => r.def);
+  },
+
+  /**
+   * The sockets a new node of each definition starts with. Built once per definitions list, so
+   * the definitions that fit a dragged wire can be found without creating a node for each.
+   */
+  getNewNodeSockets(definitions: any[]): Map<any, NodeInstance['sockets']> {
+    return new Map(definitions.map(def => [def, nodeFactory.createNodeInstance(def, { x: 0, y: 0 }, def.displayName).sockets]));
+  },
+
+  /**
+   * Picks the socket among `sockets` that a wire dragged from `socket` should attach to: an input
+   * when the wire comes from an output and the other way around. Main exec sockets are preferred.
+   */
+  findCompatibleSocket(sockets: NodeInstance['sockets'], socket: SocketDef): SocketDef | undefined {
+    const candidates = socket.io === 'output' ? sockets.inputs : sockets.outputs;
+    const compatible = candidates.filter(candidate => socket.io === 'output'
+      ? !getConnectionError(socket, candidate)
+      : !getConnectionError(candidate, socket));
+    return compatible.find(s => s.name === 'exec_in' || s.name === 'exec_out') || compatible[0];
+  },
+};
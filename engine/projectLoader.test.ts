@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { Graph, Subgraph } from '@/types';
+import { importParser } from '@/engine/importParser';
+import { codeGenerator } from '@/engine/codeGenerator';
+import { projectLoader } from '@/engine/projectLoader';
+import { subgraphManager } from '@/engine/subgraphs';
+import { loadTestDefinitions } from '@/engine/testDefinitions';
+
+const definitions = loadTestDefinitions();
+
+// A project whose only node stands for a subgraph of two statements.
+const createSubgraphProject = (code: string, name: string = 'Greet'): Graph => {
+  const graph = importParser.parse(code, definitions);
+  const collapsed = subgraphManager.collapse(graph, graph.nodes.map(n => n.id), name);
+  return { ...collapsed.graph, subgraphs: [collapsed.subgraph] };
+};
+
+// Pastes clipboard text into `target` the way the editor does, returning the project afterwards.
+const paste = (text: string, target: Graph) => {
+  const subgraphs = target.subgraphs || [];
+  const project = projectLoader.mergeClipboardSubgraphs(projectLoader.fromClipboardText(text)!, subgraphs);
+  const allDefinitions = [...definitions, ...subgraphs.map(subgraphManager.createDefinition)];
+  const { graph, unresolved } = projectLoader.rehydrate(project, allDefinitions);
+  const copy = projectLoader.cloneWithNewIds(graph, { x: 0, y: 0 });
+  return {
+    unresolved,
+    project: {
+      ...target,
+      nodes: [...target.nodes, ...copy.nodes],
+      connections: [...target.connections, ...copy.connections],
+      subgraphs: [...subgraphs, ...(graph.subgraphs || [])],
+    },
+  };
+};
+
+describe('projectLoader clipboard', () => {
+  it('copies the subgraphs of the copied nodes into another project', () => {
+    const source = createSubgraphProject('@msg.show "a"\n@msg.show "b"');
+    const text = projectLoader.toClipboardText(source, source.nodes.map(n => n.id));
+
+    const { project, unresolved } = paste(text, { nodes: [], connections: [] });
+    expect(unresolved).toEqual([]);
+    expect(project.subgraphs).toHaveLength(1);
+    expect(codeGenerator.generate(project).code).toBe('@msg.show "a"\n@msg.show "b"');
+  });
+
+  it('copies the subgraphs nested in the copied subgraphs', () => {
+    const inner = createSubgraphProject('@msg.show "a"', 'Inner');
+    const outer = subgraphManager.collapse(inner, inner.nodes.map(n => n.id), 'Outer');
+    const source: Graph = { ...outer.graph, subgraphs: [...inner.subgraphs!, outer.subgraph] };
+    const text = projectLoader.toClipboardText(source, source.nodes.map(n => n.id));
+
+    const { project, unresolved } = paste(text, { nodes: [], connections: [] });
+    expect(unresolved).toEqual([]);
+    expect(project.subgraphs!.map(sg => sg.name).sort()).toEqual(['Inner', 'Outer']);
+    expect(codeGenerator.generate(project).code).toBe('@msg.show "a"');
+  });
+
+  it('uses the subgraph the project already has when pasting into the same project', () => {
+    const source = createSubgraphProject('@msg.show "a"');
+    const text = projectLoader.toClipboardText(source, source.nodes.map(n => n.id));
+
+    const { project, unresolved } = paste(text, source);
+    expect(unresolved).toEqual([]);
+    expect(project.subgraphs).toEqual(source.subgraphs);
+    expect(project.nodes.map(n => n.type)).toEqual([source.nodes[0].type, source.nodes[0].type]);
+  });
+
+  it('gives a copied subgraph a new id when the project has a different one with its id', () => {
+    const source = createSubgraphProject('@msg.show "copied"');
+    const text = projectLoader.toClipboardText(source, source.nodes.map(n => n.id));
+    const other = createSubgraphProject('@msg.show "other"');
+    const clashing: Subgraph = { ...other.subgraphs![0], id: source.subgraphs![0].id };
+    const target: Graph = {
+      nodes: [{ ...other.nodes[0], type: subgraphManager.getType(clashing.id), definition: subgraphManager.createDefinition(clashing) }],
+      connections: [],
+      subgraphs: [clashing],
+    };
+
+    const { project, unresolved } = paste(text, target);
+    expect(unresolved).toEqual([]);
+    expect(project.subgraphs).toHaveLength(2);
+    expect(project.subgraphs![0]).toBe(clashing);
+    expect(project.subgraphs![1].id).not.toBe(clashing.id);
+    expect(project.nodes[1].type).toBe(subgraphManager.getType(project.subgraphs![1].id));
+    expect(codeGenerator.generate(project).code).toBe('@msg.show "other"\n\n@msg.show "copied"');
+  });
+});
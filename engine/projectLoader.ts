@@ -0,0 +1,351 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Graph, NodeInstance, Connection, Position, Subgraph, Frame, Registry, Script } from '@/types';
+import { nodeFactory, generateNodeSockets, getUniqueId, FixedSocket } from '@/engine/nodeFactory';
+import { subgraphManager } from '@/engine/subgraphs';
+import { registryManager } from '@/engine/registry';
+import { DEFAULT_MAIN_SCRIPT } from '@/engine/scripts';
+
+export const PROJECT_SCHEMA_VERSION = 5;
+
+// Marks clipboard text holding copied nodes, so that unrelated JSON isn't pasted as a graph.
+const CLIPBOARD_FORMAT = 'tpc-node-editor/nodes';
+
+// A node as stored in a project file. Definitions and sockets are not saved; they are
+// rebuilt from the current definition registry on load.
+export interface SavedNode {
+    id: string;
+    type: string;
+    displayName: string;
+    position: Position;
+    values: Record<string, any>;
+    isExpanded: boolean;
+    isVisible: boolean;
+}
+
+export type SavedSubgraph = Omit<Subgraph, 'nodes'> & { nodes: SavedNode[] };
+export type SavedScript = Omit<Script, 'nodes'> & { nodes: SavedNode[] };
+
+export interface ProjectFile {
+    schemaVersion: number;
+    nodes: SavedNode[];
+    connections: Connection[];
+    subgraphs: SavedSubgraph[];
+    frames: Frame[];
+    registry: Registry;
+    scripts: SavedScript[];
+    mainScript: { name: string; fileName: string };
+}
+
+// A saved node whose type has no definition in the current registry.
+export interface UnresolvedNode {
+    nodeId: string;
+    type: string;
+    displayName: string;
+}
+
+const toSavedNode = (node: any): SavedNode => ({
+    id: node.id,
+    type: node.type,
+    displayName: node.displayName,
+    position: node.position,
+    values: node.values || {},
+    isExpanded: !!node.isExpanded,
+    isVisible: node.isVisible !== false,
+});
+
+const toSavedConnection = (conn: any): Connection => ({
+    id: conn.id,
+    fromNode: conn.fromNode,
+    fromSocket: conn.fromSocket,
+    toNode: conn.toNode,
+    toSocket: conn.toSocket,
+});
+
+// Derives the sockets of an unresolved node from the connections that use it. The socket kind
+// is taken from the other end when that node is resolved; the main exec sockets are always present.
+const getPlaceholderSockets = (
+    nodeId: string,
+    connections: Connection[],
+    resolvedNodes: Map<string, NodeInstance>
+): FixedSocket[] => {
+    const sockets = new Map<string, FixedSocket>([
+        ['input:exec_in', { name: 'exec_in', io: 'input', type: 'exec', dataType: 'Exec' }],
+        ['output:exec_out', { name: 'exec_out', io: 'output', type: 'exec', dataType: 'Exec' }],
+    ]);
+
+    connections.forEach(conn => {
+        const ends = [
+            { io: 'output' as const, node: conn.fromNode, socket: conn.fromSocket, otherNode: conn.toNode, otherSocket: conn.toSocket },
+            { io: 'input' as const, node: conn.toNode, socket: conn.toSocket, otherNode: conn.fromNode, otherSocket: conn.fromSocket },
+        ];
+        ends.forEach(({ io, node, socket, otherNode, otherSocket }) => {
+            if (node !== nodeId) return;
+            const name = socket.replace(`${nodeId}-`, '');
+            if (sockets.has(`${io}:${name}`)) return;
+
+            const other = resolvedNodes.get(otherNode);
+            const otherSockets = other ? [...other.sockets.inputs, ...other.sockets.outputs] : [];
+            const isExec = otherSockets.find(s => s.id === otherSocket)?.type === 'exec';
+            sockets.set(`${io}:${name}`, isExec
+                ? { name, io, type: 'exec', dataType: 'Exec' }
+                : { name, io, type: 'data', dataType: 'Default' });
+        });
+    });
+
+    return [...sockets.values()];
+};
+
+const rehydrateNodes = (
+    savedNodes: SavedNode[],
+    savedConnections: Connection[],
+    definitions: any[],
+    unresolved: UnresolvedNode[]
+): { nodes: NodeInstance[]; connections: Connection[] } => {
+    const definitionsByType = new Map(definitions.map(d => [d.type, d]));
+
+    const buildNode = (savedNode: SavedNode, definition: any): NodeInstance => {
+        const node: NodeInstance = {
+            ...nodeFactory.createNodeInstance(definition, savedNode.position, savedNode.displayName),
+            id: savedNode.id,
+        };
+        node.values = { ...node.values, ...savedNode.values };
+        node.isExpanded = savedNode.isExpanded;
+        node.isVisible = savedNode.isVisible;
+        node.sockets = generateNodeSockets(node);
+        return node;
+    };
+
+    const resolvedNodes = new Map<string, NodeInstance>();
+    savedNodes.forEach(savedNode => {
+        const definition = definitionsByType.get(savedNode.type);
+        if (definition) resolvedNodes.set(savedNode.id, buildNode(savedNode, definition));
+    });
+
+    const nodes = savedNodes.map(savedNode => {
+        const resolved = resolvedNodes.get(savedNode.id);
+        if (resolved) return resolved;
+
+        unresolved.push({ nodeId: savedNode.id, type: savedNode.type, displayName: savedNode.displayName });
+        const sockets = getPlaceholderSockets(savedNode.id, savedConnections, resolvedNodes);
+        return buildNode(savedNode, nodeFactory.createUnresolvedDefinition(savedNode.type, sockets));
+    });
+
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const connections = savedConnections.filter(c => nodeIds.has(c.fromNode) && nodeIds.has(c.toNode));
+    return { nodes, connections };
+};
+
+// Each entry upgrades a project from schema version `index` to `index + 1`.
+const MIGRATIONS: ((project: any) => any)[] = [
+    // 0 → 1: unversioned files embedded the full `definition` and `sockets` in every node.
+    project => ({
+        schemaVersion: 1,
+        nodes: project.nodes.map(toSavedNode),
+        connections: project.connections.map(toSavedConnection),
+    }),
+    // 1 → 2: projects can hold subgraphs.
+    project => ({ ...project, schemaVersion: 2, subgraphs: [] }),
+    // 2 → 3: projects can hold comment frames.
+    project => ({ ...project, schemaVersion: 3, frames: [] }),
+    // 3 → 4: projects can name their variables, switches and string variables.
+    project => ({ ...project, schemaVersion: 4, registry: registryManager.createEmpty() }),
+    // 4 → 5: projects can hold several scripts, each written to its own file.
+    project => ({ ...project, schemaVersion: 5, scripts: [], mainScript: { name: 'Main', fileName: 'main.tpc' } }),
+];
+
+export const projectLoader = {
+  serialize(graph: Graph): ProjectFile {
+    return {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      nodes: graph.nodes.map(toSavedNode),
+      connections: graph.connections.map(toSavedConnection),
+      subgraphs: (graph.subgraphs || []).map(subgraph => ({
+        ...subgraph,
+        nodes: subgraph.nodes.map(toSavedNode),
+        connections: subgraph.connections.map(toSavedConnection),
+      })),
+      frames: graph.frames || [],
+      registry: graph.registry || registryManager.createEmpty(),
+      scripts: (graph.scripts || []).map(script => ({
+        ...script,
+        nodes: script.nodes.map(toSavedNode),
+        connections: script.connections.map(toSavedConnection),
+      })),
+      mainScript: graph.mainScript || DEFAULT_MAIN_SCRIPT,
+    };
+  },
+
+  /**
+   * Upgrades parsed project JSON of any known schema version to the current one.
+   * Throws for files that aren't projects or were saved by a newer version.
+   */
+  migrate(raw: any): ProjectFile {
+    if (!raw || !Array.isArray(raw.nodes) || !Array.isArray(raw.connections) || (raw.subgraphs && !Array.isArray(raw.subgraphs)) || (raw.frames && !Array.isArray(raw.frames)) || (raw.registry && typeof raw.registry.entries !== 'object') || (raw.scripts && !Array.isArray(raw.scripts))) {
+      throw new Error('Invalid project file format.');
+    }
+
+    let version = raw.schemaVersion ?? 0;
+    if (!Number.isInteger(version) || version < 0) {
+      throw new Error(`Invalid project schema version "${raw.schemaVersion}".`);
+    }
+    if (version > PROJECT_SCHEMA_VERSION) {
+      throw new Error(`This project uses schema version ${version}, but this editor only supports up to version ${PROJECT_SCHEMA_VERSION}.`);
+    }
+
+    let project = raw;
+    while (version < PROJECT_SCHEMA_VERSION) {
+      project = MIGRATIONS[version](project);
+      version++;
+    }
+    return project;
+  },
+
+  /**
+   * Rebuilds the nodes of a saved project (and of its scripts and subgraphs) from the current definitions,
+   * keeping their ids, values and flags. Nodes of unknown types become unresolved placeholders
+   * that keep their values and connections; they are also listed in `unresolved`.
+   */
+  rehydrate(project: ProjectFile, definitions: any[]): { graph: Graph; unresolved: UnresolvedNode[] } {
+    const savedSubgraphs = project.subgraphs || [];
+    const allDefinitions = [...definitions, ...savedSubgraphs.map(subgraphManager.createDefinition)];
+    const unresolved: UnresolvedNode[] = [];
+
+    const root = rehydrateNodes(project.nodes, project.connections, allDefinitions, unresolved);
+    const subgraphs: Subgraph[] = savedSubgraphs.map(saved => ({
+      ...saved,
+      ...rehydrateNodes(saved.nodes, saved.connections, allDefinitions, unresolved),
+    }));
+    const scripts: Script[] = (project.scripts || []).map(saved => ({
+      ...saved,
+      ...rehydrateNodes(saved.nodes, saved.connections, allDefinitions, unresolved),
+    }));
+
+    return {
+      graph: {
+        ...root,
+        subgraphs,
+        frames: project.frames || [],
+        registry: project.registry || registryManager.createEmpty(),
+        scripts,
+        mainScript: project.mainScript,
+      },
+      unresolved,
+    };
+  },
+
+  /**
+   * Copies a graph with fresh node, connection and frame ids, moving every node and frame by `offset`.
+   * Used to add imported, pasted and duplicated nodes next to the existing ones.
+   */
+  cloneWithNewIds(graph: Graph, offset: Position): Graph {
+    const idMap = new Map<string, string>();
+
+    const nodes = graph.nodes.map(node => {
+      const newNode: NodeInstance = {
+        ...node,
+        id: getUniqueId('node'),
+        position: { x: node.position.x + offset.x, y: node.position.y + offset.y },
+      };
+      newNode.sockets = generateNodeSockets(newNode);
+      idMap.set(node.id, newNode.id);
+      return newNode;
+    });
+
+    const connections = graph.connections.map(conn => {
+      const newFromNode = idMap.get(conn.fromNode);
+      const newToNode = idMap.get(conn.toNode);
+      if (!newFromNode || !newToNode) return null;
+
+      const fromSocketName = conn.fromSocket.replace(`${conn.fromNode}-`, '');
+      const toSocketName = conn.toSocket.replace(`${conn.toNode}-`, '');
+      return {
+        ...conn,
+        id: getUniqueId('edge'),
+        fromNode: newFromNode,
+        toNode: newToNode,
+        fromSocket: `${newFromNode}-${fromSocketName}`,
+        toSocket: `${newToNode}-${toSocketName}`,
+      };
+    }).filter((c): c is Connection => c !== null);
+
+    const frames = graph.frames?.map(frame => ({
+      ...frame,
+      id: getUniqueId('frame'),
+      position: { x: frame.position.x + offset.x, y: frame.position.y + offset.y },
+    }));
+
+    return frames ? { nodes, connections, frames } : { nodes, connections };
+  },
+
+  // The given nodes together with the connections between them.
+  extractSelection(graph: Graph, nodeIds: string[]): Graph {
+    const ids = new Set(nodeIds);
+    return {
+      nodes: graph.nodes.filter(n => ids.has(n.id)),
+      connections: graph.connections.filter(c => ids.has(c.fromNode) && ids.has(c.toNode)),
+    };
+  },
+
+  // Serializes the given nodes, with the connections between them and the subgraphs they use, for the clipboard.
+  toClipboardText(graph: Graph, nodeIds: string[], subgraphs: Subgraph[] = graph.subgraphs || []): string {
+    const selection = projectLoader.extractSelection(graph, nodeIds);
+    const project = projectLoader.serialize({ ...selection, subgraphs: subgraphManager.getUsedSubgraphs(selection.nodes, subgraphs) });
+    return JSON.stringify({ format: CLIPBOARD_FORMAT, ...project });
+  },
+
+  /**
+   * Prepares copied nodes to be pasted into a project holding `subgraphs`. Copied subgraphs the
+   * project already has are left out, so the pasted nodes use the project's. One whose id the
+   * project gives to a different subgraph gets a new id, and the nodes using it follow.
+   */
+  mergeClipboardSubgraphs(project: ProjectFile, subgraphs: Subgraph[]): ProjectFile {
+    const existing = new Map(projectLoader.serialize({ nodes: [], connections: [], subgraphs }).subgraphs.map(sg => [sg.id, JSON.stringify(sg)]));
+    const renamed = new Map<string, string>();
+    const uses = (subgraph: SavedSubgraph, ids: Map<string, string>) =>
+      subgraph.nodes.some(n => [...ids.keys()].some(id => n.type === subgraphManager.getType(id)));
+    // A copied subgraph that is the same as the project's, but uses one that isn't, isn't the same either.
+    let changed = true;
+    while (changed) {
+      changed = false;
+      project.subgraphs.forEach(subgraph => {
+        if (renamed.has(subgraph.id) || !existing.has(subgraph.id)) return;
+        if (existing.get(subgraph.id) !== JSON.stringify(subgraph) || uses(subgraph, renamed)) {
+          renamed.set(subgraph.id, getUniqueId('subgraph'));
+          changed = true;
+        }
+      });
+    }
+
+    const renameTypes = (nodes: SavedNode[]) => nodes.map(node => {
+      const id = [...renamed.keys()].find(oldId => node.type === subgraphManager.getType(oldId));
+      return id ? { ...node, type: subgraphManager.getType(renamed.get(id)!) } : node;
+    });
+    return {
+      ...project,
+      nodes: renameTypes(project.nodes),
+      subgraphs: project.subgraphs
+        .filter(subgraph => renamed.has(subgraph.id) || !existing.has(subgraph.id))
+        .map(subgraph => ({ ...subgraph, id: renamed.get(subgraph.id) ?? subgraph.id, nodes: renameTypes(subgraph.nodes) })),
+    };
+  },
+
+  // Reads nodes copied with `toClipboardText`. Returns null for any other clipboard content.
+  fromClipboardText(text: string): ProjectFile | null {
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      return null;
+    }
+    if (raw?.format !== CLIPBOARD_FORMAT) return null;
+    return projectLoader.migrate(raw);
+  },
+
+  // Migrates and rehydrates parsed project JSON in one step.
+  load(raw: any, definitions: any[]): { graph: Graph; unresolved: UnresolvedNode[] } {
+    return projectLoader.rehydrate(projectLoader.migrate(raw), definitions);
+  }
+};
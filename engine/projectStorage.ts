@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProjectFile } from '@/engine/projectLoader';
+
+// The autosaved state of the editor, restored after a crash or reload.
+export interface StoredSession {
+    project: ProjectFile;
+    projectName: string | null;
+    savedAt: number;
+    // False when the project matches what was last saved to or loaded from a file.
+    hasUnsavedChanges: boolean;
+}
+
+export interface RecentProject {
+    name: string;
+    project: ProjectFile;
+    savedAt: number;
+}
+
+const DB_NAME = 'tpc-node-editor';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const PROJECTS_STORE = 'projects';
+const SESSION_KEY = 'current';
+const MAX_RECENT_PROJECTS = 10;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'name' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let the next call try again, e.g. after the user allowed storage.
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+};
+
+// Runs one request in its own transaction and resolves once the transaction has completed.
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = createRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const projectStorage = {
+  async saveSession(session: StoredSession): Promise<void> {
+    await runRequest(SESSION_STORE, 'readwrite', store => store.put(session, SESSION_KEY));
+  },
+
+  async loadSession(): Promise<StoredSession | null> {
+    const session = await runRequest<StoredSession | undefined>(SESSION_STORE, 'readonly', store => store.get(SESSION_KEY));
+    return session || null;
+  },
+
+  async clearSession(): Promise<void> {
+    await runRequest(SESSION_STORE, 'readwrite', store => store.delete(SESSION_KEY));
+  },
+
+  // Newest first.
+  async listRecentProjects(): Promise<RecentProject[]> {
+    const projects = await runRequest<RecentProject[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+    return projects.sort((a, b) => b.savedAt - a.savedAt);
+  },
+
+  // Stores a project under its file name, replacing an older copy, and forgets the oldest ones.
+  async saveRecentProject(name: string, project: ProjectFile): Promise<RecentProject[]> {
+    await runRequest(PROJECTS_STORE, 'readwrite', store => store.put({ name, project, savedAt: Date.now() }));
+    const projects = await projectStorage.listRecentProjects();
+    for (const stale of projects.slice(MAX_RECENT_PROJECTS)) {
+      await runRequest(PROJECTS_STORE, 'readwrite', store => store.delete(stale.name));
+    }
+    return projects.slice(0, MAX_RECENT_PROJECTS);
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { Registry } from '@/types';
+import { importParser } from '@/engine/importParser';
+import { codeGenerator } from '@/engine/codeGenerator';
+import { graphValidator } from '@/engine/graphValidator';
+import { registryManager } from '@/engine/registry';
+import { loadTestDefinitions } from '@/engine/testDefinitions';
+
+const definitions = loadTestDefinitions();
+
+const createRegistry = (names: Partial<Record<'variable' | 'switch' | 'string', [number, string][]>>): Registry => {
+  let registry = { ...registryManager.createEmpty(), emitDefs: true };
+  Object.entries(names).forEach(([kind, entries]) => entries!.forEach(([id, name]) => {
+    registry = registryManager.setEntry(registry, kind as keyof typeof names, { id, name, note: '' });
+  }));
+  return registry;
+};
+
+describe('registryManager.withDefStatements', () => {
+  it('defines a name given to several entries once, for the first', () => {
+    const graph = { ...importParser.parse('@msg.show "hi"', definitions), registry: createRegistry({
+      variable: [[1, 'Gold'], [2, 'Count'], [3, 'gold ']],
+      switch: [[4, 'Count']],
+    }) };
+    const { code } = codeGenerator.generate(registryManager.withDefStatements(graph, definitions));
+    expect(code.split('\n').filter(line => line.startsWith('def'))).toEqual(['def Gold = v[1]', 'def Count = v[2]', 'def gold = v[3]']);
+
+    expect(graphValidator.validate(graph).map(p => p.message)).toEqual([
+      'The name "Count" is given to v[2], s[4]. Only v[2] gets its def line.',
+    ]);
+  });
+});
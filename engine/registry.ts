@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Graph, NodeInstance, Connection, Registry, RegistryEntry, RegistryKind } from '@/types';
+import { nodeFactory, getUniqueId } from '@/engine/nodeFactory';
+
+export const REGISTRY_KINDS: Record<RegistryKind, { label: string; prefix: string }> = {
+  variable: { label: 'Variables', prefix: 'v' },
+  switch: { label: 'Switches', prefix: 's' },
+  string: { label: 'Strings', prefix: 't' },
+};
+
+// The single-line form of the `def` meta command, and the value keys of its name and value.
+const DEF_COMMAND_TYPE = 'def (Name) [= (Value)]';
+const DEF_NAME_KEY = '0_Name';
+const DEF_VALUE_ENABLED_KEY = '1_group_enabled';
+const DEF_VALUE_KEY = '1_1_Value';
+
+export const registryManager = {
+  createEmpty(): Registry {
+    return { entries: { variable: [], switch: [], string: [] }, emitDefs: false };
+  },
+
+  // How a script refers to an ID, e.g. `v[12]`.
+  formatReference(kind: RegistryKind, id: number): string {
+    return `${REGISTRY_KINDS[kind].prefix}[${id}]`;
+  },
+
+  // The ID in a reference like `v[12]`, or in a bare number when `bare` is set. Null for anything else.
+  parseReference(kind: RegistryKind, text: string, bare: boolean = false): number | null {
+    const pattern = bare ? /^\s*(\d+)\s*$/ : new RegExp(`^\\s*${REGISTRY_KINDS[kind].prefix}\\[\\s*(\\d+)\\s*\\]\\s*$`);
+    const match = String(text ?? '').match(pattern);
+    return match ? parseInt(match[1], 10) : null;
+  },
+
+  getEntry(registry: Registry | undefined, kind: RegistryKind, id: number | null): RegistryEntry | undefined {
+    return id === null ? undefined : registry?.entries[kind].find(e => e.id === id);
+  },
+
+  // Adds the entry, or replaces the one with the same ID. Entries stay sorted by ID.
+  setEntry(registry: Registry, kind: RegistryKind, entry: RegistryEntry, replacingId: number = entry.id): Registry {
+    const others = registry.entries[kind].filter(e => e.id !== replacingId && e.id !== entry.id);
+    return {
+      ...registry,
+      entries: { ...registry.entries, [kind]: [...others, entry].sort((a, b) => a.id - b.id) },
+    };
+  },
+
+  removeEntry(registry: Registry, kind: RegistryKind, id: number): Registry {
+    return { ...registry, entries: { ...registry.entries, [kind]: registry.entries[kind].filter(e => e.id !== id) } };
+  },
+
+  // The lowest ID from 1 up that has no entry yet.
+  nextFreeId(registry: Registry, kind: RegistryKind): number {
+    const used = new Set(registry.entries[kind].map(e => e.id));
+    let id = 1;
+    while (used.has(id)) id++;
+    return id;
+  },
+
+  // Adds the entries of `other` whose IDs aren't in `registry` yet.
+  merge(registry: Registry, other: Registry): Registry {
+    let merged = registry;
+    (Object.keys(REGISTRY_KINDS) as RegistryKind[]).forEach(kind => {
+      other.entries[kind].forEach(entry => {
+        if (!registryManager.getEntry(merged, kind, entry.id)) merged = registryManager.setEntry(merged, kind, entry);
+      });
+    });
+    return merged;
+  },
+
+  // The name of an entry as a TPC identifier, or null when there is nothing to name it by.
+  toIdentifier(name: string): string | null {
+    const identifier = name.trim().replace(/\W+/g, '_').replace(/^_+|_+$/g, '');
+    if (!identifier) return null;
+    return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+  },
+
+  // The named entries by the identifier they are defined as, in kind and ID order.
+  groupByIdentifier(registry: Registry): Map<string, { kind: RegistryKind; id: number }[]> {
+    const groups = new Map<string, { kind: RegistryKind; id: number }[]>();
+    (Object.keys(REGISTRY_KINDS) as RegistryKind[]).forEach(kind => {
+      registry.entries[kind].forEach(entry => {
+        const name = registryManager.toIdentifier(entry.name);
+        if (!name) return;
+        if (!groups.has(name)) groups.set(name, []);
+        groups.get(name)!.push({ kind, id: entry.id });
+      });
+    });
+    return groups;
+  },
+
+  /**
+   * Adds a chain of `def` statements, one per named entry, before the rest of the graph when the
+   * registry asks for them. They are built from the `def` meta command in `definitions`, and are
+   * only meant for generating code. An identifier given to several entries is defined for the first only.
+   */
+  withDefStatements(graph: Graph, definitions: any[]): Graph {
+    const registry = graph.registry;
+    const defDefinition = definitions.find(d => d.type === DEF_COMMAND_TYPE);
+    if (!registry?.emitDefs || !defDefinition) return graph;
+
+    const defNodes: NodeInstance[] = [];
+    registryManager.groupByIdentifier(registry).forEach(([{ kind, id }], name) => {
+      const node = nodeFactory.createNodeInstance(defDefinition, { x: 0, y: 0 }, defDefinition.displayName);
+      node.values = {
+        ...node.values,
+        [DEF_NAME_KEY]: name,
+        [DEF_VALUE_ENABLED_KEY]: true,
+        [DEF_VALUE_KEY]: registryManager.formatReference(kind, id),
+      };
+      defNodes.push(node);
+    });
+    if (defNodes.length === 0) return graph;
+
+    const defConnections: Connection[] = defNodes.slice(1).map((node, i) => ({
+      id: getUniqueId('edge'),
+      fromNode: defNodes[i].id,
+      fromSocket: `${defNodes[i].id}-exec_out`,
+      toNode: node.id,
+      toSocket: `${node.id}-exec_in`,
+    }));
+    // The chain comes first among the start nodes, so it is generated at the top.
+    return { ...graph, nodes: [...defNodes, ...graph.nodes], connections: [...defConnections, ...graph.connections] };
+  },
+};
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Graph, NodeInstance, Script } from '@/types';
+import { getUniqueId } from '@/engine/nodeFactory';
+import { argumentWalker } from '@/engine/argumentWalker';
+import { codeGenerator, GenerationResult } from '@/engine/codeGenerator';
+import { registryManager } from '@/engine/registry';
+
+// The main script is the project graph itself, so it has no entry in `Graph.scripts`.
+export const MAIN_SCRIPT_ID = 'main';
+
+export const DEFAULT_MAIN_SCRIPT = { name: 'Main', fileName: 'main.tpc' };
+
+export interface ScriptInfo {
+    id: string;
+    name: string;
+    fileName: string;
+}
+
+export interface ScriptOutput extends ScriptInfo, GenerationResult {}
+
+// The value keys of a node's fields that name another script, marked with `script_file` in the definitions.
+const getScriptFileKeys = (node: NodeInstance): string[] =>
+  argumentWalker<string[]>(node, {
+    onPrimitive: ({ arg, key }) => arg.script_file ? [key] : [],
+  }).flat(2);
+
+const renameInNodes = (nodes: NodeInstance[], oldFileName: string, newFileName: string): NodeInstance[] =>
+  nodes.map(node => {
+    const keys = getScriptFileKeys(node).filter(key => node.values[key] === oldFileName);
+    if (keys.length === 0) return node;
+    const values = { ...node.values };
+    keys.forEach(key => { values[key] = newFileName; });
+    return { ...node, values };
+  });
+
+export const scriptManager = {
+  // The main script first, then the others in tab order.
+  list(project: Graph): ScriptInfo[] {
+    const main = project.mainScript || DEFAULT_MAIN_SCRIPT;
+    return [
+      { id: MAIN_SCRIPT_ID, name: main.name, fileName: main.fileName },
+      ...(project.scripts || []).map(({ id, name, fileName }) => ({ id, name, fileName })),
+    ];
+  },
+
+  getScript(project: Graph, scriptId: string | null): Script | undefined {
+    return scriptId === MAIN_SCRIPT_ID ? undefined : project.scripts?.find(s => s.id === scriptId);
+  },
+
+  // A script as a graph of its own, sharing the project's subgraphs and registry.
+  getGraph(project: Graph, scriptId: string): Graph {
+    const script = scriptManager.getScript(project, scriptId);
+    if (!script) return project;
+    return {
+      nodes: script.nodes,
+      connections: script.connections,
+      frames: script.frames,
+      subgraphs: project.subgraphs,
+      registry: project.registry,
+    };
+  },
+
+  create(name: string, fileName: string): Script {
+    return { id: getUniqueId('script'), name, fileName, nodes: [], connections: [], frames: [] };
+  },
+
+  // A file name derived from a script name, e.g. `Shop Menu` -> `Shop_Menu.tpc`.
+  toFileName(name: string): string {
+    const base = name.trim().replace(/[^\w.-]+/g, '_').replace(/^[_.]+|_+$/g, '');
+    return `${base || 'script'}.tpc`;
+  },
+
+  // `fileName`, or the first of `name_2.tpc`, `name_3.tpc`, ... that no script of the project uses.
+  getFreeFileName(project: Graph, fileName: string): string {
+    const taken = new Set(scriptManager.list(project).map(s => s.fileName.toLowerCase()));
+    const dot = fileName.lastIndexOf('.');
+    const [base, extension] = dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ''];
+    let candidate = fileName;
+    for (let i = 2; taken.has(candidate.toLowerCase()); i++) candidate = `${base}_${i}${extension}`;
+    return candidate;
+  },
+
+  // The project's scripts followed by those of `others` it doesn't have yet, each kept on a file of its own.
+  merge(project: Graph, others: Script[]): Script[] {
+    let merged = project;
+    others.forEach(script => {
+      if (merged.scripts?.some(s => s.id === script.id)) return;
+      const fileName = scriptManager.getFreeFileName(merged, script.fileName);
+      merged = { ...merged, scripts: [...(merged.scripts || []), { ...script, fileName }] };
+    });
+    return merged.scripts || [];
+  },
+
+  // Why a file name can't be used, or null when it can. `scriptId` is the script being renamed.
+  validateFileName(project: Graph, fileName: string, scriptId: string | null): string | null {
+    const trimmed = fileName.trim();
+    if (!trimmed) return 'The file name is required.';
+    if (/[\\/:*?"<>|]/.test(trimmed)) return 'The file name can\'t contain \\ / : * ? " < > |';
+    const taken = scriptManager.list(project).some(s => s.id !== scriptId && s.fileName.toLowerCase() === trimmed.toLowerCase());
+    return taken ? `Another script is already written to ${trimmed}.` : null;
+  },
+
+  // Points the include fields that named `oldFileName` at `newFileName`, in every script and subgraph.
+  renameFile(project: Graph, oldFileName: string, newFileName: string): Graph {
+    if (oldFileName === newFileName) return project;
+    return {
+      ...project,
+      nodes: renameInNodes(project.nodes, oldFileName, newFileName),
+      scripts: project.scripts?.map(s => ({ ...s, nodes: renameInNodes(s.nodes, oldFileName, newFileName) })),
+      subgraphs: project.subgraphs?.map(s => ({ ...s, nodes: renameInNodes(s.nodes, oldFileName, newFileName) })),
+    };
+  },
+
+  // Renames a script and moves it to another file, pointing the includes of its old file at the new one.
+  update(project: Graph, scriptId: string, name: string, fileName: string): Graph {
+    const previous = scriptManager.list(project).find(s => s.id === scriptId);
+    if (!previous) return project;
+    const renamed = scriptManager.renameFile(project, previous.fileName, fileName);
+    if (scriptId === MAIN_SCRIPT_ID) return { ...renamed, mainScript: { name, fileName } };
+    return { ...renamed, scripts: renamed.scripts?.map(s => s.id === scriptId ? { ...s, name, fileName } : s) };
+  },
+
+  remove(project: Graph, scriptId: string): Graph {
+    return { ...project, scripts: project.scripts?.filter(s => s.id !== scriptId) };
+  },
+
+  // Generates every script of the project, each with the registry's `def` statements when enabled.
+  generateAll(project: Graph, definitions: any[]): ScriptOutput[] {
+    return scriptManager.list(project).map(info => {
+      const graph = registryManager.withDefStatements(scriptManager.getGraph(project, info.id), definitions);
+      return { ...info, ...codeGenerator.generate(graph) };
+    });
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { importParser } from '@/engine/importParser';
+import { codeGenerator } from '@/engine/codeGenerator';
+import { generateNodeSockets } from '@/engine/nodeFactory';
+import { subgraphManager } from '@/engine/subgraphs';
+import { loadTestDefinitions } from '@/engine/testDefinitions';
+
+const definitions = loadTestDefinitions();
+
+describe('subgraphManager.collapse', () => {
+  it('only makes ports of the inputs connected from outside and keeps the typed values inside', () => {
+    const graph = importParser.parse('@msg.show "typed"\n@msg.show "fed"\n\n@msg.show "source"', definitions);
+    graph.nodes.forEach(node => {
+      node.isExpanded = true;
+      node.sockets = generateNodeSockets(node);
+    });
+    const [typed, fed, source] = graph.nodes;
+    const output = source.sockets.outputs.find(s => s.type === 'data')!;
+    const input = fed.sockets.inputs.find(s => s.type === 'data')!;
+    const wired = {
+      ...graph,
+      connections: [...graph.connections, { id: 'feed', fromNode: source.id, fromSocket: output.id, toNode: fed.id, toSocket: input.id }],
+    };
+
+    const { graph: collapsed, subgraph } = subgraphManager.collapse(wired, [typed.id, fed.id], 'Show');
+    expect(subgraph.inputs.map(p => [p.nodeId, p.socketName])).toEqual([[fed.id, input.name]]);
+    expect(subgraph.nodes.find(n => n.id === typed.id)!.values).toEqual(typed.values);
+    expect(codeGenerator.generate({ ...collapsed, subgraphs: [subgraph] }).code.split('\n\n'))
+      .toContain('@msg.show "typed"\n@msg.show "source"');
+  });
+});
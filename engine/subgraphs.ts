@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Graph, NodeInstance, Connection, Subgraph, SubgraphPort, SocketDef } from '@/types';
+import { nodeFactory, generateNodeSockets, getUniqueId, FixedSocket } from '@/engine/nodeFactory';
+
+const SUBGRAPH_TYPE_PREFIX = 'subgraph:';
+
+const socketName = (nodeId: string, socketId: string) => socketId.replace(`${nodeId}-`, '');
+
+// Nodes cloned out of a subgraph get ids of the form `<subgraph node id>/<inner node id>`.
+const CLONE_ID_SEPARATOR = '/';
+
+// Points a connection end at a subgraph node to the socket behind it, or null when there is none.
+type EndResolver = (nodeId: string, socketId: string, io: 'input' | 'output') => [string, string] | null;
+
+export const subgraphManager = {
+  isSubgraphType(type: string): boolean {
+    return type.startsWith(SUBGRAPH_TYPE_PREFIX);
+  },
+
+  // The node type of the nodes that stand for a subgraph.
+  getType(subgraphId: string): string {
+    return `${SUBGRAPH_TYPE_PREFIX}${subgraphId}`;
+  },
+
+  // The subgraphs the given nodes stand for, with the subgraphs nested in those.
+  getUsedSubgraphs(nodes: Pick<NodeInstance, 'type'>[], subgraphs: Subgraph[]): Subgraph[] {
+    const used = new Set<string>();
+    const visit = (types: string[]) => types.forEach(type => {
+      const subgraph = subgraphs.find(sg => subgraphManager.getType(sg.id) === type);
+      if (!subgraph || used.has(subgraph.id)) return;
+      used.add(subgraph.id);
+      visit(subgraph.nodes.map(n => n.type));
+    });
+    visit(nodes.map(n => n.type));
+    return subgraphs.filter(sg => used.has(sg.id));
+  },
+
+  // The definition of the node that stands for a subgraph. Its sockets are the subgraph's ports.
+  createDefinition(subgraph: Omit<Subgraph, 'nodes'> & { nodes: unknown[] }) {
+    const sockets: FixedSocket[] = [];
+    if (subgraph.entryNodeId) sockets.push({ name: 'exec_in', io: 'input', type: 'exec', dataType: 'Exec' });
+    if (subgraph.exitNodeId) sockets.push({ name: 'exec_out', io: 'output', type: 'exec', dataType: 'Exec' });
+    subgraph.inputs.forEach(p => sockets.push({ name: p.name, label: p.label, io: 'input', type: p.type, dataType: p.dataType }));
+    subgraph.outputs.forEach(p => sockets.push({ name: p.name, label: p.label, io: 'output', type: p.type, dataType: p.dataType }));
+
+    const type = subgraphManager.getType(subgraph.id);
+    return {
+      type,
+      displayName: subgraph.name,
+      signature: `${subgraph.name} (${subgraph.nodes.length} nodes)`,
+      subgraphId: subgraph.id,
+      sockets,
+      nodeDef: { command: subgraph.name, type, arguments: [] },
+      defaultValues: {},
+    };
+  },
+
+  /**
+   * Moves the given nodes into a new subgraph and puts a subgraph node in their place.
+   * Connections that cross the selection become the ports of the new node; the values typed
+   * into the other inputs stay inside. The caller adds
+   * the returned subgraph to the project. Throws when the selection can't be collapsed,
+   * e.g. because it holds more than one exec chain.
+   */
+  collapse(graph: Graph, nodeIds: string[], name: string): { graph: Graph; subgraph: Subgraph } {
+    const inside = new Set(nodeIds);
+    const innerNodes = graph.nodes.filter(n => inside.has(n.id));
+    if (innerNodes.length === 0) throw new Error('Select the nodes to collapse first.');
+
+    const socketsByNode = new Map(graph.nodes.map(n => [n.id, generateNodeSockets(n)]));
+    const findOutput = (conn: Connection) => socketsByNode.get(conn.fromNode)?.outputs.find(s => s.id === conn.fromSocket);
+    const findInput = (conn: Connection) => socketsByNode.get(conn.toNode)?.inputs.find(s => s.id === conn.toSocket);
+
+    const innerConnections = graph.connections.filter(c => inside.has(c.fromNode) && inside.has(c.toNode));
+    const incoming = graph.connections.filter(c => !inside.has(c.fromNode) && inside.has(c.toNode));
+    const outgoing = graph.connections.filter(c => inside.has(c.fromNode) && !inside.has(c.toNode));
+
+    // The entry is the only node whose exec input isn't fed from inside the selection.
+    const heads = innerNodes.filter(n =>
+      socketsByNode.get(n.id)!.inputs.some(s => s.name === 'exec_in') &&
+      !innerConnections.some(c => c.toSocket === `${n.id}-exec_in`)
+    );
+    if (heads.length > 1) throw new Error('The selected nodes must form a single exec chain.');
+    const entryNodeId = heads[0]?.id ?? null;
+
+    // The exit is the last node reached by following exec outputs from the entry.
+    let exitNodeId = entryNodeId;
+    const visited = new Set<string>();
+    while (exitNodeId && !visited.has(exitNodeId)) {
+      visited.add(exitNodeId);
+      const next = innerConnections.find(c => c.fromSocket === `${exitNodeId}-exec_out`);
+      if (!next) break;
+      exitNodeId = next.toNode;
+    }
+
+    const inputs: SubgraphPort[] = [];
+    const outputs: SubgraphPort[] = [];
+    const addPort = (ports: SubgraphPort[], prefix: string, socket: SocketDef, node: NodeInstance) => {
+      let port = ports.find(p => p.nodeId === node.id && p.socketName === socket.name);
+      if (!port) {
+        port = {
+          name: `${prefix}_${ports.length}`,
+          label: `${node.displayName}: ${socket.label}`,
+          type: 'data',
+          dataType: socket.dataType,
+          nodeId: node.id,
+          socketName: socket.name,
+        };
+        ports.push(port);
+      }
+      return port;
+    };
+
+    const instanceId = getUniqueId('node');
+    const rewired: Connection[] = [];
+
+    incoming.forEach(conn => {
+      const target = findInput(conn);
+      if (target?.type === 'exec') {
+        if (conn.toSocket !== `${entryNodeId}-exec_in`) {
+          throw new Error('Only the first node of the chain can be entered from outside the selection.');
+        }
+        rewired.push({ ...conn, toNode: instanceId, toSocket: `${instanceId}-exec_in` });
+        return;
+      }
+      const node = innerNodes.find(n => n.id === conn.toNode)!;
+      if (!target) return;
+      const port = addPort(inputs, 'in', target, node);
+      rewired.push({ ...conn, toNode: instanceId, toSocket: `${instanceId}-${port.name}` });
+    });
+
+    outgoing.forEach(conn => {
+      const source = findOutput(conn);
+      if (source?.type === 'exec') {
+        if (conn.fromSocket !== `${exitNodeId}-exec_out`) {
+          throw new Error('Only the last node of the chain can continue outside the selection.');
+        }
+        rewired.push({ ...conn, fromNode: instanceId, fromSocket: `${instanceId}-exec_out` });
+        return;
+      }
+      const node = innerNodes.find(n => n.id === conn.fromNode)!;
+      if (!source) return;
+      const port = addPort(outputs, 'out', source, node);
+      rewired.push({ ...conn, fromNode: instanceId, fromSocket: `${instanceId}-${port.name}` });
+    });
+
+    const subgraph: Subgraph = {
+      id: getUniqueId('subgraph'),
+      name,
+      nodes: innerNodes,
+      connections: innerConnections,
+      inputs,
+      outputs,
+      entryNodeId,
+      exitNodeId,
+    };
+
+    // Place the new node where the first node of the chain was.
+    const anchor = innerNodes.find(n => n.id === entryNodeId) || innerNodes[0];
+    const instance: NodeInstance = {
+      ...nodeFactory.createNodeInstance(subgraphManager.createDefinition(subgraph), anchor.position, name),
+      id: instanceId,
+    };
+    instance.sockets = generateNodeSockets(instance);
+
+    return {
+      graph: {
+        ...graph,
+        nodes: [...graph.nodes.filter(n => !inside.has(n.id)), instance],
+        connections: [
+          ...graph.connections.filter(c => !inside.has(c.fromNode) && !inside.has(c.toNode)),
+          ...rewired,
+        ],
+      },
+      subgraph,
+    };
+  },
+
+  /**
+   * Replaces every subgraph node with a copy of the nodes inside it, rewiring its connections
+   * to the inner sockets its ports stand for. Nested subgraphs are expanded too; a subgraph
+   * that contains itself is reported and left out.
+   */
+  flatten(graph: Graph): { graph: Graph; recursiveNodes: { id: string; displayName: string }[] } {
+    const subgraphsById = new Map((graph.subgraphs || []).map(sg => [sg.id, sg]));
+    const recursiveNodes: { id: string; displayName: string }[] = [];
+
+    // `idPrefix` is the prefix the returned nodes will get from the enclosing levels.
+    const expand = (nodes: NodeInstance[], connections: Connection[], stack: string[], idPrefix: string): { nodes: NodeInstance[]; connections: Connection[]; resolveEnd: EndResolver } => {
+      const expandedNodes: NodeInstance[] = [];
+      const allConnections = [...connections];
+      const instances = new Map<string, { subgraph: Subgraph; prefix: string; resolveInner: EndResolver }>();
+
+      nodes.forEach(node => {
+        const subgraph = subgraphsById.get(node.definition.subgraphId);
+        if (!subgraph) {
+          expandedNodes.push(node);
+          return;
+        }
+        if (stack.includes(subgraph.id)) {
+          recursiveNodes.push({ id: `${idPrefix}${node.id}`, displayName: node.displayName });
+          return;
+        }
+
+        const prefix = `${node.id}${CLONE_ID_SEPARATOR}`;
+        const inner = expand(subgraph.nodes, subgraph.connections, [...stack, subgraph.id], `${idPrefix}${prefix}`);
+        instances.set(node.id, { subgraph, prefix, resolveInner: inner.resolveEnd });
+        inner.nodes.forEach(innerNode => {
+          const clone = { ...innerNode, id: `${prefix}${innerNode.id}`, isVisible: node.isVisible && innerNode.isVisible };
+          clone.sockets = generateNodeSockets(clone);
+          expandedNodes.push(clone);
+        });
+        inner.connections.forEach(conn => {
+          allConnections.push({
+            ...conn,
+            id: `${prefix}${conn.id}`,
+            fromNode: `${prefix}${conn.fromNode}`,
+            toNode: `${prefix}${conn.toNode}`,
+            fromSocket: `${prefix}${conn.fromSocket}`,
+            toSocket: `${prefix}${conn.toSocket}`,
+          });
+        });
+      });
+
+      // Points a connection end at a subgraph node to the inner socket behind it.
+      const resolveEnd: EndResolver = (nodeId, socketId, io) => {
+        const instance = instances.get(nodeId);
+        if (!instance) return [nodeId, socketId];
+        const { subgraph, prefix, resolveInner } = instance;
+        const name = socketName(nodeId, socketId);
+
+        let innerNodeId: string | null = null;
+        let innerSocket = name;
+        if (name === 'exec_in' && io === 'input') {
+          innerNodeId = subgraph.entryNodeId;
+        } else if (name === 'exec_out' && io === 'output') {
+          innerNodeId = subgraph.exitNodeId;
+        } else {
+          const port = (io === 'input' ? subgraph.inputs : subgraph.outputs).find(p => p.name === name);
+          if (port) {
+            innerNodeId = port.nodeId;
+            innerSocket = port.socketName;
+          }
+        }
+        if (!innerNodeId || !subgraph.nodes.some(n => n.id === innerNodeId)) return null;
+        // The inner node can be a nested subgraph node, which its own level expanded away.
+        const end = resolveInner(innerNodeId, `${innerNodeId}-${innerSocket}`, io);
+        return end && [`${prefix}${end[0]}`, `${prefix}${end[1]}`];
+      };
+
+      const expandedConnections = allConnections.map(conn => {
+        const from = resolveEnd(conn.fromNode, conn.fromSocket, 'output');
+        const to = resolveEnd(conn.toNode, conn.toSocket, 'input');
+        if (!from || !to) return null;
+        return { ...conn, fromNode: from[0], fromSocket: from[1], toNode: to[0], toSocket: to[1] };
+      }).filter((c): c is Connection => c !== null);
+
+      return { nodes: expandedNodes, connections: expandedConnections, resolveEnd };
+    };
+
+    const { nodes, connections } = expand(graph.nodes, graph.connections, [], '');
+    return { graph: { nodes, connections }, recursiveNodes };
+  },
+
+  // Maps the id of a node cloned by `flatten` back to the top-level node it came from.
+  getSourceNodeId(flatNodeId: string): string {
+    return flatNodeId.split(CLONE_ID_SEPARATOR)[0];
+  },
+};
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import fs from 'node:fs';
+import path from 'node:path';
+import { discoverDefinitionFiles } from '@/build/definitionBundle';
+import { createDefinitionsFromFile } from '@/engine/definitionLoader';
+
+const DATA_DIR = path.resolve(__dirname, '../data');
+
+// The editor's definitions, loaded from data/ the way the app loads its bundle. For tests.
+export const loadTestDefinitions = (): any[] => {
+  const definitions: any[] = [];
+  const seenTypes = new Set<string>();
+  for (const filePath of Object.values(discoverDefinitionFiles(DATA_DIR)).flat()) {
+    const commands = JSON.parse(fs.readFileSync(path.join(DATA_DIR, filePath.replace(/^data\//, '')), 'utf8'));
+    definitions.push(...createDefinitionsFromFile(commands, filePath, seenTypes));
+  }
+  return definitions;
+};
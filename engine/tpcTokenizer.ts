@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { REGISTRY_KINDS } from '@/engine/registry';
+
+export type TokenKind =
+    | 'command'     // `@msg.show`
+    | 'directive'   // `#include`
+    | 'meta'        // `__fn`, `def`
+    | 'subcommand'  // `.add`, `.case`
+    | 'keyword'     // word keywords of the definitions
+    | 'reference'   // the `v` of `v[12]`
+    | 'string'
+    | 'number'
+    | 'operator'
+    | 'bracket'
+    | 'text';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    column: number;
+}
+
+// The words the tokenizer recognizes, collected from the loaded definitions.
+export interface TpcKeywords {
+    heads: Map<string, TokenKind>;
+    subcommands: Set<string>;
+    words: Set<string>;
+    references: Set<string>;
+}
+
+// Where a token is: its line and its index among the tokens of that line.
+export type TokenPosition = `${number}:${number}`;
+
+export interface BracketMatches {
+    // Each matched bracket, pointing at its partner.
+    pairs: Map<TokenPosition, TokenPosition>;
+    unmatched: Set<TokenPosition>;
+}
+
+// Lines `start` to `end` (inclusive) of a `{ }` block that spans more than one line.
+export interface FoldRange {
+    start: number;
+    end: number;
+}
+
+const HEAD_PATTERN = /^[@#]?[A-Za-z_][\w.]*$/;
+const WORD_PATTERN = /^[A-Za-z_]\w*$/;
+const OPERATOR_CHARS = '+-*/%=<>!&|:?';
+const OPENING = '([{';
+const CLOSING = ')]}';
+
+const getHeadKind = (head: string): TokenKind => {
+  if (head.startsWith('@')) return 'command';
+  if (head.startsWith('#')) return 'directive';
+  return 'meta';
+};
+
+const collectArguments = (args: any, keywords: TpcKeywords) => {
+  if (!Array.isArray(args)) return;
+  args.forEach(arg => {
+    if (!arg || typeof arg !== 'object') return;
+    if (arg.type === 'subcommand' && typeof arg.name === 'string') keywords.subcommands.add(arg.name);
+    if (arg.type === 'base' && typeof arg.name === 'string' && HEAD_PATTERN.test(arg.name)) keywords.heads.set(arg.name, getHeadKind(arg.name));
+    if (arg.type === 'keyword' && typeof arg.value === 'string') {
+      if (arg.value.startsWith('.')) keywords.subcommands.add(arg.value);
+      else if (WORD_PATTERN.test(arg.value)) keywords.words.add(arg.value);
+    }
+    collectArguments(arg.arguments, keywords);
+    collectArguments(arg.content, keywords);
+    collectArguments(arg.options, keywords);
+  });
+};
+
+// Classifies a run of word characters and dots: the longest known head, e.g. `@party.member` of
+// `@party.member.add`, then each `.name` after it.
+const pushWord = (
+  word: string,
+  start: number,
+  next: string | undefined,
+  keywords: TpcKeywords,
+  push: (kind: TokenKind, start: number, end: number) => void
+) => {
+  if (next === '[' && keywords.references.has(word)) {
+    push('reference', start, start + word.length);
+    return;
+  }
+  let offset = 0;
+  if (!word.startsWith('.')) {
+    const parts = word.split('.');
+    let head = parts[0];
+    for (let n = parts.length; n > 1; n--) {
+      const candidate = parts.slice(0, n).join('.');
+      if (keywords.heads.has(candidate)) {
+        head = candidate;
+        break;
+      }
+    }
+    push(keywords.heads.get(head) ?? (keywords.words.has(head) ? 'keyword' : 'text'), start, start + head.length);
+    offset = head.length;
+  }
+  word.slice(offset).split(/(?=\.)/).filter(Boolean).forEach(part => {
+    push(keywords.subcommands.has(part) ? 'subcommand' : 'text', start + offset, start + offset + part.length);
+    offset += part.length;
+  });
+};
+
+export const tpcTokenizer = {
+  /**
+   * Collects the command heads (`base`, or `command` when a definition has no `base`), subcommands
+   * and keywords of the definitions. Expression nodes only build pieces of statements and are
+   * left out, like the `v`/`s`/`t` heads, which are highlighted as references instead.
+   */
+  collectKeywords(definitions: any[]): TpcKeywords {
+    const references = new Set(Object.values(REGISTRY_KINDS).map(k => k.prefix));
+    const keywords: TpcKeywords = { heads: new Map(), subcommands: new Set(), words: new Set(), references };
+    definitions.forEach(d => {
+      const nodeDef = d.nodeDef;
+      if (!nodeDef || nodeDef.expression) return;
+      const head = Object.prototype.hasOwnProperty.call(nodeDef, 'base') ? nodeDef.base : nodeDef.command;
+      if (typeof head === 'string' && HEAD_PATTERN.test(head) && !references.has(head)) keywords.heads.set(head, getHeadKind(head));
+      if (typeof nodeDef.subcommand === 'string') keywords.subcommands.add(nodeDef.subcommand);
+      collectArguments(nodeDef.arguments, keywords);
+    });
+    return keywords;
+  },
+
+  // Splits code into tokens, one list per line. Strings end at the end of their line, as in the importer.
+  tokenize(code: string, keywords: TpcKeywords): Token[][] {
+    return code.split('\n').map(line => {
+      const tokens: Token[] = [];
+      const push = (kind: TokenKind, start: number, end: number) => {
+        const previous = tokens[tokens.length - 1];
+        // Runs of plain text are kept in one token.
+        if (kind === 'text' && previous?.kind === 'text') previous.text += line.slice(start, end);
+        else tokens.push({ kind, text: line.slice(start, end), column: start });
+      };
+
+      let i = 0;
+      while (i < line.length) {
+        const ch = line[i];
+        if (ch === '"') {
+          let end = i + 1;
+          while (end < line.length && line[end] !== '"') end += line[end] === '\\' ? 2 : 1;
+          end = Math.min(end + 1, line.length);
+          push('string', i, end);
+          i = end;
+        } else if (/\d/.test(ch)) {
+          const end = i + line.slice(i).match(/^\d+(\.\d+)?/)![0].length;
+          push('number', i, end);
+          i = end;
+        } else if (/[@#\w.]/.test(ch)) {
+          const end = i + line.slice(i).match(/^[@#.]?\w*(\.\w+)*/)![0].length;
+          pushWord(line.slice(i, end), i, line[end], keywords, push);
+          i = end;
+        } else if (OPENING.includes(ch) || CLOSING.includes(ch)) {
+          push('bracket', i, i + 1);
+          i++;
+        } else if (OPERATOR_CHARS.includes(ch)) {
+          let end = i + 1;
+          while (end < line.length && OPERATOR_CHARS.includes(line[end])) end++;
+          push('operator', i, end);
+          i = end;
+        } else {
+          push('text', i, i + 1);
+          i++;
+        }
+      }
+      return tokens;
+    });
+  },
+
+  // Pairs up the brackets of tokenized code. Brackets that close the wrong kind or never close are unmatched.
+  matchBrackets(lines: Token[][]): BracketMatches {
+    const pairs = new Map<TokenPosition, TokenPosition>();
+    const unmatched = new Set<TokenPosition>();
+    const stack: { position: TokenPosition; text: string }[] = [];
+    lines.forEach((tokens, line) => tokens.forEach((token, index) => {
+      if (token.kind !== 'bracket') return;
+      const position: TokenPosition = `${line}:${index}`;
+      if (OPENING.includes(token.text)) {
+        stack.push({ position, text: token.text });
+        return;
+      }
+      const open = stack[stack.length - 1];
+      if (open && OPENING.indexOf(open.text) === CLOSING.indexOf(token.text)) {
+        stack.pop();
+        pairs.set(open.position, position);
+        pairs.set(position, open.position);
+      } else {
+        unmatched.add(position);
+      }
+    }));
+    stack.forEach(open => unmatched.add(open.position));
+    return { pairs, unmatched };
+  },
+
+  // The `{ }` blocks that can be folded, by the line of their opening brace.
+  getFoldRanges(lines: Token[][], matches: BracketMatches): Map<number, FoldRange> {
+    const ranges = new Map<number, FoldRange>();
+    matches.pairs.forEach((close, open) => {
+      const [line, index] = open.split(':').map(Number);
+      const end = Number(close.split(':')[0]);
+      if (lines[line][index].text !== '{' || end <= line || ranges.has(line)) return;
+      ranges.set(line, { start: line, end });
+    });
+    return ranges;
+  },
+};
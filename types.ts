@@ -39,7 +39,78 @@ export interface Connection {
     resolvedValue?: string; // Optional resolved value from source node
 }
 
+// A socket of a subgraph node, standing in for a socket of one of the nodes inside it.
+export interface SubgraphPort {
+    name: string;
+    label: string;
+    type: 'exec' | 'data';
+    dataType: string;
+    nodeId: string;
+    socketName: string;
+}
+
+// A group of nodes collapsed into a reusable node. Its code is inlined wherever it is used.
+export interface Subgraph {
+    id: string;
+    name: string;
+    nodes: NodeInstance[];
+    connections: Connection[];
+    inputs: SubgraphPort[];
+    outputs: SubgraphPort[];
+    // First and last node of the inner exec chain, wired to the subgraph node's exec sockets.
+    entryNodeId: string | null;
+    exitNodeId: string | null;
+    frames?: Frame[];
+}
+
+// A colored, resizable box drawn behind the nodes to annotate them. Nodes whose top-left
+// corner lies inside it are its members and move with it.
+export interface Frame {
+    id: string;
+    title: string;
+    // Markdown text shown below the title.
+    body: string;
+    color: string;
+    position: Position;
+    size: { width: number; height: number };
+    // Whether the title is generated as an `@comment` line before the first member's code.
+    emitComment: boolean;
+}
+
+export type RegistryKind = 'variable' | 'switch' | 'string';
+
+// A name and note given to one game variable, switch or string variable ID.
+export interface RegistryEntry {
+    id: number;
+    name: string;
+    note: string;
+}
+
+// The project's names for the IDs its scripts use, kept on the project graph.
+export interface Registry {
+    entries: Record<RegistryKind, RegistryEntry[]>;
+    // Whether a `def` statement is generated for each named entry at the top of the script.
+    emitDefs: boolean;
+}
+
+// A script of the project that is generated into its own file. The project graph's own nodes
+// form the main script; the others are kept in `Graph.scripts`.
+export interface Script {
+    id: string;
+    name: string;
+    fileName: string;
+    nodes: NodeInstance[];
+    connections: Connection[];
+    frames?: Frame[];
+}
+
 export interface Graph {
     nodes: NodeInstance[];
     connections: Connection[];
+    subgraphs?: Subgraph[];
+    frames?: Frame[];
+    registry?: Registry;
+    scripts?: Script[];
+    // The name and output file of the main script.
+    mainScript?: { name: string; fileName: string };
 }
\ No newline at end of file
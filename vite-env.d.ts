@@ -0,0 +1,4 @@
+declare module 'virtual:definition-manifest' {
+  export const DATA_FILES: Record<string, string[]>;
+  export const DEFINITIONS_URL: string;
+}
@@ -0,0 +1,26 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Builds the headless `tpc-graph` compiler. It reads the definitions from data/ at runtime.
+export default defineConfig({
+    build: {
+        ssr: 'cli/tpc-graph.ts',
+        outDir: 'dist-cli',
+        emptyOutDir: true,
+        target: 'node18',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'tpc-graph.js',
+                banner: '#!/usr/bin/env node',
+            }
+        }
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, '.'),
+      }
+    }
+});
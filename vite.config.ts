@@ -2,8 +2,8 @@
 
 import path from 'path';
 import { defineConfig } from 'vite';
-import { viteStaticCopy } from 'vite-plugin-static-copy';
 import { fileURLToPath } from 'url';
+import { definitionBundlePlugin } from './build/definitionBundle';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -18,13 +18,6 @@ export default defineConfig({
       }
     },
     plugins: [
-      viteStaticCopy({
-        targets: [
-          {
-            src: 'data',
-            dest: ''
-          }
-        ]
-      })
+      definitionBundlePlugin(path.resolve(__dirname, 'data'))
     ]
 });
\ No newline at end of file